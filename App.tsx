@@ -1,146 +1,89 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type } from '@google/genai';
-import { AppStatus, Language } from './types.ts';
-import { LANGUAGES, TRANSCRIPTION_MODELS } from './constants.ts';
-
-// Custom type for a timed transcription segment
-interface TranscriptionSegment {
-  startTime: number; // in milliseconds
-  endTime: number; // in milliseconds
-  text: string;
-}
-
-// Custom type for a parsed SRT segment
-interface SrtSegment {
-    index: number;
-    timing: string;
-    text: string;
-}
-
+import { AppStatus, AssStyle, GlossaryEntry, Language, LocalServerConfig, Project, ProjectSummary, ProviderId, SpeechOptions, SubtitleCue, SubtitleRules, SubtitleDocument, SubtitleFormat, TranscriptionJob, TranscriptionOptions, TranscriptionProvider, TranscriptionResult, TranscriptionSegment, TranslationOptions } from './types.ts';
+import { LANGUAGES, TRANSCRIPTION_MODELS, GEMINI_VOICES, DEFAULT_LOCAL_SERVER_CONFIG, DEFAULT_ASS_STYLE, DEFAULT_REQUEST_CONCURRENCY, DEFAULT_SUBTITLE_RULES } from './constants.ts';
+import { decodeAudioData, decodeAudioFile, downmixAudioBuffer, sliceAudioBufferToWav, audioBufferToWav } from './utils/audio.ts';
+import { segmentsToSrt, segmentsToVtt, parseSubtitleFile, buildSubtitleFile, getSubtitleFormat, SUBTITLE_MIME_TYPES } from './utils/subtitles.ts';
+import { segmentsToAss, extractAssText, restoreAssText, assToPlainText } from './utils/ass.ts';
+import { downloadBlob } from './utils/download.ts';
+import { SegmentEdit, applySegmentEdit, mirrorEditOnTranslation } from './utils/segmentEdits.ts';
+import { useUndoableState } from './hooks/useUndoableState.ts';
+import { createProvider } from './services/providers.ts';
+import { LiveConnection, LiveConnectionState, createLiveConnection } from './services/liveConnection.ts';
+import { createProjectId, listProjects, getProject, saveProject, deleteProject, deleteProjectsUpdatedBefore, getStorageUsage, requestPersistentStorage } from './services/projectStore.ts';
+import ProviderSettings from './components/ProviderSettings.tsx';
+import AssStyleEditor from './components/AssStyleEditor.tsx';
+import SegmentEditor from './components/SegmentEditor.tsx';
+import MediaPlayer from './components/MediaPlayer.tsx';
+import TranscriptText from './components/TranscriptText.tsx';
+import SpeakerNames from './components/SpeakerNames.tsx';
+import ProjectHistory from './components/ProjectHistory.tsx';
+import ChunkStatus from './components/ChunkStatus.tsx';
+import MicrophoneSettings from './components/MicrophoneSettings.tsx';
+import InputLevelMeter from './components/InputLevelMeter.tsx';
+import LiveConnectionStatus from './components/LiveConnectionStatus.tsx';
+import GlossaryEditor from './components/GlossaryEditor.tsx';
+import GlossaryReport from './components/GlossaryReport.tsx';
+import LanguageSwitcher from './components/LanguageSwitcher.tsx';
+import DetectedLanguages from './components/DetectedLanguages.tsx';
+import DubbingReport from './components/DubbingReport.tsx';
+import ReadabilitySettings from './components/ReadabilitySettings.tsx';
+import ReadabilityReport from './components/ReadabilityReport.tsx';
+import SpeechSettings, { MAX_SPEECH_RATE, MIN_SPEECH_RATE } from './components/SpeechSettings.tsx';
+import { findSegmentIndexAt } from './utils/timeline.ts';
+import { mergeChunkSegments } from './utils/seams.ts';
+import { planSpeechChunks } from './utils/vad.ts';
+import { decodeMediaAudio, isAudioFile, isVideoFile } from './utils/media.ts';
+import { burnInSubtitles } from './utils/burnIn.ts';
+import { DUBBING_SAMPLE_RATE, DubbingClip, DubbingOverrun, mixDubbingTrack } from './utils/dubbing.ts';
+import { findReadabilityViolations, reflowSegments } from './utils/readability.ts';
+import { findGlossaryViolations, getGlossaryForLanguage } from './utils/glossary.ts';
+import { createZip } from './utils/zip.ts';
+import { planSubtitleBatches } from './utils/subtitleBatches.ts';
+import { getSpeakerLabels, applySpeakerNames } from './utils/speakers.ts';
+import { createTranscriptionJob, createTranscriptionJobFromWindows, getChunkContext, getDetectedLanguages, getIncompleteChunkIndices, updateChunk } from './utils/chunks.ts';
+import { getLanguageName, isSameLanguage } from './utils/languages.ts';
+import { withRetry, runConcurrently } from './utils/requestScheduler.ts';
+import { SpeechQueue, createSpeechQueue, speakInOrder, splitSpeechText } from './utils/speechQueue.ts';
+import { createSpeechCache, getSpeechCacheKey } from './utils/speechCache.ts';
+import { InputLevel, LIVE_SAMPLE_RATE, LiveCapture, openMicrophone, startLiveCapture } from './utils/liveCapture.ts';
+import { CompressedRecorder, PcmRecording, appendPcmFrame, createPcmRecording, pcmRecordingToAudioBuffer, startCompressedRecording } from './utils/recording.ts';
 
 // Configuration for file chunking
 const CHUNK_DURATION_SECONDS = 55; // Process audio in 55-second chunks
-const SRT_TRANSLATE_CHUNK_SIZE = 50; // Translate 50 SRT segments at a time
+const DEFAULT_SKIP_SILENCE_SECONDS = 10; // Dead air at least this long is not sent for transcription
+const DEFAULT_CHUNK_OVERLAP_SECONDS = 5; // Audio shared by neighbouring chunks, so no word is cut in half
+const MAX_CHUNK_OVERLAP_SECONDS = 15; // Must stay well under half a chunk for the seam merge
+const MAX_CONSECUTIVE_CHUNK_FAILURES = 3; // Likely an outage rather than a bad chunk, so stop and let the user resume
+const SRT_TRANSLATE_CHUNK_SIZE = 50; // Translate up to 50 SRT segments at a time
+const TRANSCRIPT_TRANSLATE_CHUNK_SIZE = 50; // Translate up to 50 transcript segments at a time
+const MAX_TRANSLATION_MISMATCH_RETRIES = 2; // Repeats of a batch that came back with the wrong number of segments
 const MAX_AUDIO_FILE_SIZE_BYTES = 100 * 1024 * 1024; // 100 MB
+const MAX_VIDEO_FILE_SIZE_BYTES = 500 * 1024 * 1024; // 500 MB; the whole file is read into memory to decode its soundtrack
 const MAX_SRT_FILE_SIZE_BYTES = 5 * 1024 * 1024; // 5 MB
-
-
-// Helper function to format milliseconds into SRT timestamp format HH:MM:SS,mmm
-const formatSrtTime = (ms: number): string => {
-  const date = new Date(0);
-  date.setMilliseconds(ms);
-  const hours = date.getUTCHours().toString().padStart(2, '0');
-  const minutes = date.getUTCMinutes().toString().padStart(2, '0');
-  const seconds = date.getUTCSeconds().toString().padStart(3, '0').slice(0, 2);
-  const milliseconds = date.getUTCMilliseconds().toString().padStart(3, '0');
-  return `${hours}:${minutes}:${seconds},${milliseconds}`;
-};
-
-// Base64 encoding function for audio data
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-// Base64 decoding function for audio data
-function decode(base64: string): Uint8Array {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
+const PROJECT_AUTOSAVE_DELAY_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ProjectMeta = Pick<Project, 'id' | 'name' | 'createdAt' | 'providerId' | 'model'>;
+
+// Live interpretation settings, captured when a recording starts so that later turns use the same ones
+interface LiveInterpretation {
+    provider: TranscriptionProvider;
+    languageName: string;
+    options: TranslationOptions;
+    speak: boolean;
+    speech: SpeechOptions;
 }
 
-/**
- * Decodes raw PCM audio data into an AudioBuffer for playback.
- * The Gemini TTS model returns audio at a 24000Hz sample rate.
- */
-async function decodeAudioData(
-    data: Uint8Array,
-    ctx: AudioContext,
-    sampleRate: number,
-    numChannels: number,
-): Promise<AudioBuffer> {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-    for (let channel = 0; channel < numChannels; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        for (let i = 0; i < frameCount; i++) {
-            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-        }
-    }
-    return buffer;
-}
-
-
-/**
- * Converts an AudioBuffer to a WAV audio format Blob.
- * This is necessary for sending audio chunks to the API in a recognized format.
- */
-const audioBufferToWav = (buffer: AudioBuffer): Blob => {
-    const numOfChan = buffer.numberOfChannels;
-    const length = buffer.length * numOfChan * 2 + 44;
-    const bufferArray = new ArrayBuffer(length);
-    const view = new DataView(bufferArray);
-    const channels: Float32Array[] = [];
-    let i: number, sample: number;
-    let offset = 0;
-    let pos = 0;
-
-    const setUint16 = (data: number) => {
-        view.setUint16(pos, data, true);
-        pos += 2;
-    };
+// Serialized project content, used to skip autosaves when nothing changed
+const projectSnapshot = (
+    segments: TranscriptionSegment[],
+    translations: Record<string, TranscriptionSegment[]>,
+    speakerNames: Record<string, string>,
+    job: TranscriptionJob | null,
+    glossary: GlossaryEntry[]
+): string =>
+    JSON.stringify([segments, Object.keys(translations).sort().map(code => [code, translations[code]]), speakerNames, job, glossary]);
 
-    const setUint32 = (data: number) => {
-        view.setUint32(pos, data, true);
-        pos += 4;
-    };
-
-    // Write WAVE header
-    setUint32(0x46464952); // "RIFF"
-    setUint32(length - 8); // file length - 8
-    setUint32(0x45564157); // "WAVE"
-
-    // Write fmt chunk
-    setUint32(0x20746d66); // "fmt "
-    setUint32(16); // chunk length
-    setUint16(1); // sample format (1 = PCM)
-    setUint16(numOfChan);
-    setUint32(buffer.sampleRate);
-    setUint32(buffer.sampleRate * 2 * numOfChan); // byte rate
-    setUint16(numOfChan * 2); // block align
-    setUint16(16); // bits per sample
-
-    // Write data chunk
-    setUint32(0x61746164); // "data"
-    setUint32(length - pos - 4);
-
-    // Get PCM samples
-    for (i = 0; i < buffer.numberOfChannels; i++) {
-        channels.push(buffer.getChannelData(i));
-    }
-
-    while (pos < length - 44) {
-        for (i = 0; i < numOfChan; i++) {
-            sample = Math.max(-1, Math.min(1, channels[i][offset])); // clamp
-            sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit
-            view.setInt16(pos, sample, true);
-            pos += 2;
-        }
-        offset++;
-    }
-
-    return new Blob([view], { type: 'audio/wav' });
-};
 
 
 // Icon components defined outside the main component to prevent re-creation on re-renders
@@ -150,6 +93,9 @@ const MicIcon = ({ className }: { className?: string }) => (
 const StopIcon = ({ className }: { className?: string }) => (
     <svg className={className} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2a10 10 0 1 0 10 10A10 10 0 0 0 12 2Zm0 18a8 8 0 1 1 8-8a8 8 0 0 1-8 8Z" /><path d="M12 10a2 2 0 1 0 2 2a2 2 0 0 0-2-2Z" /></svg>
 );
+const PauseIcon = ({ className }: { className?: string }) => (
+    <svg className={className} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M8 5a1 1 0 0 0-1 1v12a1 1 0 0 0 2 0V6a1 1 0 0 0-1-1Zm8 0a1 1 0 0 0-1 1v12a1 1 0 0 0 2 0V6a1 1 0 0 0-1-1Z" /></svg>
+);
 const UploadIcon = ({ className }: { className?: string }) => (
     <svg className={className} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M9 16h6v-6h4l-7-7-7 7h4v6zm-4 2h14v2H5v-2z"/></svg>
 );
@@ -189,18 +135,112 @@ const App: React.FC = () => {
     const [tempApiKey, setTempApiKey] = useState<string>('');
     const isApiKeyMissing = !apiKey;
 
+    // Provider State
+    const [providerId, setProviderId] = useState<ProviderId>(() => (localStorage.getItem('providerId') as ProviderId) || 'gemini');
+    const [localServerConfig, setLocalServerConfig] = useState<LocalServerConfig>(() => {
+        const saved = localStorage.getItem('localServerConfig');
+        return saved ? { ...DEFAULT_LOCAL_SERVER_CONFIG, ...JSON.parse(saved) } : DEFAULT_LOCAL_SERVER_CONFIG;
+    });
+
     // General state
     const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
     const [error, setError] = useState<string | null>(null);
     const [activeTab, setActiveTab] = useState<'scribe' | 'srtTranslator'>('scribe');
 
     // Scribe & Translate state
-    const [segments, setSegments] = useState<TranscriptionSegment[]>([]);
-    const [translatedSegments, setTranslatedSegments] = useState<TranscriptionSegment[]>([]);
+    // Source and translated segments share one undo history so that linked edits undo together
+    const transcriptHistory = useUndoableState<{ segments: TranscriptionSegment[]; translatedSegments: TranscriptionSegment[] }>({ segments: [], translatedSegments: [] });
+    const { segments, translatedSegments } = transcriptHistory.value;
+    const setTranscript = transcriptHistory.set;
+    const setSegments = useCallback((update: TranscriptionSegment[] | ((prev: TranscriptionSegment[]) => TranscriptionSegment[])) => {
+        setTranscript(prev => ({ ...prev, segments: typeof update === 'function' ? update(prev.segments) : update }));
+    }, [setTranscript]);
+    const setTranslatedSegments = useCallback((update: TranscriptionSegment[] | ((prev: TranscriptionSegment[]) => TranscriptionSegment[])) => {
+        setTranscript(prev => ({ ...prev, translatedSegments: typeof update === 'function' ? update(prev.translatedSegments) : update }));
+    }, [setTranscript]);
+    const [mediaFile, setMediaFile] = useState<File | null>(null);
+    const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+    const [playbackTime, setPlaybackTime] = useState<number>(0);
+    const [captionTrack, setCaptionTrack] = useState<'translation' | 'transcription' | 'both'>('translation');
+    const [burnInProgress, setBurnInProgress] = useState<number | null>(null);
+    const [dubbingProgress, setDubbingProgress] = useState<number | null>(null);
+    const [dubbingOverruns, setDubbingOverruns] = useState<DubbingOverrun[]>([]);
+    const [fitDubbingToSegments, setFitDubbingToSegments] = useState<boolean>(true);
+    const [dubOverOriginal, setDubOverOriginal] = useState<boolean>(false);
+    // Opus copy of the last live recording; only kept until the next reset, the project stores the WAV
+    const [compressedRecording, setCompressedRecording] = useState<Blob | null>(null);
+    const [diarizeSpeakers, setDiarizeSpeakers] = useState<boolean>(() => localStorage.getItem('diarizeSpeakers') === 'true');
+    const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+    const [globalGlossary, setGlobalGlossary] = useState<GlossaryEntry[]>(() => {
+        const saved = localStorage.getItem('glossary');
+        return saved ? JSON.parse(saved) : [];
+    });
+    const [projectGlossary, setProjectGlossary] = useState<GlossaryEntry[]>([]);
+    const [includeSpeakersInExport, setIncludeSpeakersInExport] = useState<boolean>(true);
+    const [wordTimestamps, setWordTimestamps] = useState<boolean>(() => localStorage.getItem('wordTimestamps') === 'true');
+    // Language code spoken in uploaded files, or 'auto' to detect it per chunk
+    const [sourceLanguage, setSourceLanguage] = useState<string>(() => localStorage.getItem('sourceLanguage') || 'auto');
+    const [splitAtPauses, setSplitAtPauses] = useState<boolean>(() => localStorage.getItem('splitAtPauses') !== 'false');
+    const [skipSilenceSeconds, setSkipSilenceSeconds] = useState<number>(() => {
+        const saved = localStorage.getItem('skipSilenceSeconds');
+        return saved !== null ? Number(saved) : DEFAULT_SKIP_SILENCE_SECONDS;
+    });
+    const [chunkOverlapSeconds, setChunkOverlapSeconds] = useState<number>(() => {
+        const saved = localStorage.getItem('chunkOverlapSeconds');
+        return saved !== null ? Number(saved) : DEFAULT_CHUNK_OVERLAP_SECONDS;
+    });
+    const [concurrency, setConcurrency] = useState<number>(() => Number(localStorage.getItem('requestConcurrency')) || DEFAULT_REQUEST_CONCURRENCY);
+    const [exportTrack, setExportTrack] = useState<'translation' | 'transcription'>('translation');
+    const [includeWordTimingsInExport, setIncludeWordTimingsInExport] = useState<boolean>(true);
+    const [transcriptView, setTranscriptView] = useState<'text' | 'segments'>('text');
+    const [markStaleOnEdit, setMarkStaleOnEdit] = useState<boolean>(true);
     const [currentSegment, setCurrentSegment] = useState<{ text: string; startTime: number | null }>({ text: '', startTime: null });
     const [targetLanguage, setTargetLanguage] = useState<string>(LANGUAGES[1].code);
+    // Live interpretation: each finished turn of a recording is translated (and optionally spoken) right away
+    const [liveTranslation, setLiveTranslation] = useState<boolean>(() => localStorage.getItem('liveTranslation') === 'true');
+    const [liveTranslationLanguage, setLiveTranslationLanguage] = useState<string>(() => localStorage.getItem('liveTranslationLanguage') || LANGUAGES[1].code);
+    const [speakLiveTranslation, setSpeakLiveTranslation] = useState<boolean>(() => localStorage.getItem('speakLiveTranslation') === 'true');
+    const [microphoneId, setMicrophoneId] = useState<string>(() => localStorage.getItem('microphoneId') || '');
+    const [noiseSuppression, setNoiseSuppression] = useState<boolean>(() => localStorage.getItem('noiseSuppression') !== 'false');
+    const [echoCancellation, setEchoCancellation] = useState<boolean>(() => localStorage.getItem('echoCancellation') !== 'false');
+    // Spoken translations
+    const [ttsVoice, setTtsVoice] = useState<string>(() => localStorage.getItem('ttsVoice') || GEMINI_VOICES[0].name);
+    const [ttsRate, setTtsRate] = useState<number>(() => {
+        const saved = Number(localStorage.getItem('ttsRate'));
+        return saved >= MIN_SPEECH_RATE && saved <= MAX_SPEECH_RATE ? saved : 1;
+    });
+    const [ttsStyle, setTtsStyle] = useState<string>(() => localStorage.getItem('ttsStyle') || '');
+    const [speakingSegmentIndex, setSpeakingSegmentIndex] = useState<number | null>(null); // Null while the whole translation is spoken
+    const [isRecordingPaused, setIsRecordingPaused] = useState<boolean>(false);
+    const [liveConnectionState, setLiveConnectionState] = useState<LiveConnectionState>('connecting');
+    // Languages the transcript is translated into by one click on "Translate"
+    const [translationQueue, setTranslationQueue] = useState<string[]>(() => {
+        const saved = localStorage.getItem('translationLanguages');
+        return saved ? JSON.parse(saved) : [LANGUAGES[1].code];
+    });
+    // Project history: translatedSegments holds the translation for translationLanguage, other languages wait in savedTranslations
+    const [activeProject, setActiveProject] = useState<ProjectMeta | null>(null);
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
+    const [savedTranslations, setSavedTranslations] = useState<Record<string, TranscriptionSegment[]>>({});
+    const [translationLanguage, setTranslationLanguage] = useState<string | null>(null);
+    const [transcriptionJob, setTranscriptionJob] = useState<TranscriptionJob | null>(null);
     const [progress, setProgress] = useState<number>(0);
     const [progressLabel, setProgressLabel] = useState<string>('');
+    const [vttCueSettings, setVttCueSettings] = useState<string>('');
+    const [assStyle, setAssStyle] = useState<AssStyle>(() => {
+        const saved = localStorage.getItem('assStyle');
+        return saved ? { ...DEFAULT_ASS_STYLE, ...JSON.parse(saved) } : DEFAULT_ASS_STYLE;
+    });
+    const [assStylePresets, setAssStylePresets] = useState<AssStyle[]>(() => {
+        const saved = localStorage.getItem('assStylePresets');
+        return saved ? JSON.parse(saved) : [DEFAULT_ASS_STYLE];
+    });
+    const [subtitleRules, setSubtitleRules] = useState<SubtitleRules>(() => {
+        const saved = localStorage.getItem('subtitleRules');
+        return saved ? { ...DEFAULT_SUBTITLE_RULES, ...JSON.parse(saved) } : DEFAULT_SUBTITLE_RULES;
+    });
+    const [reflowSubtitles, setReflowSubtitles] = useState<boolean>(() => localStorage.getItem('reflowSubtitles') !== 'false');
     const [ttsStatus, setTtsStatus] = useState<'idle' | 'loading' | 'playing'>('idle');
     const [transcriptionModel, setTranscriptionModel] = useState<string>(() => {
         return localStorage.getItem('transcriptionModel') || TRANSCRIPTION_MODELS[0];
@@ -208,33 +248,98 @@ const App: React.FC = () => {
 
     // SRT Translator state
     const [srtFileName, setSrtFileName] = useState<string | null>(null);
-    const [srtSegments, setSrtSegments] = useState<SrtSegment[]>([]);
-    const [translatedSrtContent, setTranslatedSrtContent] = useState<string | null>(null);
+    const [srtDocument, setSrtDocument] = useState<SubtitleDocument | null>(null);
+    const [srtSegments, setSrtSegments] = useState<SubtitleCue[]>([]);
+    const [translatedSrtTexts, setTranslatedSrtTexts] = useState<string[] | null>(null);
+    const [srtTranslationLanguage, setSrtTranslationLanguage] = useState<string | null>(null); // Code translatedSrtTexts are in
     const [srtStatus, setSrtStatus] = useState<'idle' | 'uploading' | 'processing' | 'finished' | 'error'>('idle');
     const [srtError, setSrtError] = useState<string | null>(null);
     const [srtProgress, setSrtProgress] = useState<number>(0);
     const [srtProgressLabel, setSrtProgressLabel] = useState<string>('');
+    // Synopsis or character list sent with every batch of the subtitle file
+    const [srtBrief, setSrtBrief] = useState<string>('');
 
     // Refs
+    // Segment times are measured from here; resuming after a pause moves it forward by the paused time
     const recordingStartTimeRef = useRef<number>(0);
+    const recordingPausedAtRef = useRef<number | null>(null);
+    const recordingNameRef = useRef<string>('');
+    const inputLevelRef = useRef<InputLevel | null>(null);
     const progressIntervalRef = useRef<number | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
-    const audioContextRef = useRef<AudioContext | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
+    const liveCaptureRef = useRef<LiveCapture | null>(null);
+    const liveConnectionRef = useRef<LiveConnection | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const srtFileInputRef = useRef<HTMLInputElement>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    // Playback of the translation or one of its segments; replaced whenever something else is played
+    const ttsQueueRef = useRef<SpeechQueue | null>(null);
+    const ttsPlaybackRef = useRef<{ stopped: boolean } | null>(null);
+    const mediaElementRef = useRef<HTMLMediaElement | null>(null);
     const isTranscriptionCancelledRef = useRef<boolean>(false);
+    const burnInAbortRef = useRef<AbortController | null>(null);
+    const dubbingAbortRef = useRef<AbortController | null>(null);
+    // Chunk loop currently running; a cancelled loop may still be waiting on its last request
+    const transcriptionRunRef = useRef<Promise<unknown> | null>(null);
+    const lastSavedSnapshotRef = useRef<string>('');
+    // Turns are translated and spoken one at a time so that they stay in order
+    const liveInterpretationRef = useRef<LiveInterpretation | null>(null);
+    const liveTranslationChainRef = useRef<Promise<void>>(Promise.resolve());
+    const liveSpeechChainRef = useRef<Promise<void>>(Promise.resolve());
+    const liveSpeechQueueRef = useRef<SpeechQueue | null>(null);
+    // Microphone audio of the live session, kept for playback, download and re-transcription
+    const pcmRecordingRef = useRef<PcmRecording | null>(null);
+    const compressedRecorderRef = useRef<CompressedRecorder | null>(null);
     
     const currentSegmentRef = useRef(currentSegment);
     currentSegmentRef.current = currentSegment;
 
+    const provider: TranscriptionProvider = useMemo(
+        () => createProvider(providerId, { apiKey, geminiModel: transcriptionModel, localServer: localServerConfig }),
+        [providerId, apiKey, transcriptionModel, localServerConfig]
+    );
+    // The local server's voice is part of its own settings
+    const speechOptions: SpeechOptions = useMemo(
+        () => ({ voice: providerId === 'gemini' ? ttsVoice : undefined, rate: ttsRate, style: ttsStyle }),
+        [providerId, ttsVoice, ttsRate, ttsStyle]
+    );
+    // Generated speech is kept until the provider changes, so replaying or re-exporting costs nothing
+    const speechCache = useMemo(() => createSpeechCache(), [provider]);
+    // Gemini needs an API key; the local server only needs an address
+    const isProviderMissing = providerId === 'gemini' ? isApiKeyMissing : !localServerConfig.baseUrl.trim();
+    const activeModelName = providerId === 'gemini' ? transcriptionModel : localServerConfig.transcriptionModel;
+
     // Derived state for display
     const transcription = segments.map(s => s.text).join(' ');
     const translation = translatedSegments.map(s => s.text).join(' ');
     const transcriptionForDisplay = (segments.map(s => s.text).join(' ') + ' ' + currentSegment.text).trim();
+    const activeSegmentIndex = mediaUrl ? findSegmentIndexAt(segments, playbackTime) : -1;
+    const activeTranslatedIndex = mediaUrl ? findSegmentIndexAt(translatedSegments, playbackTime) : -1;
+    const isVideo = mediaFile ? isVideoFile(mediaFile) : false;
+    // Captions shown over the player; without a translation the transcript is previewed instead
+    const previewTrack = translatedSegments.length > 0 ? captionTrack : 'transcription';
+    const transcriptCaption = activeSegmentIndex >= 0 ? segments[activeSegmentIndex].text : null;
+    const translationCaption = activeTranslatedIndex >= 0 ? translatedSegments[activeTranslatedIndex].text : null;
+    const liveCaption = previewTrack === 'transcription' ? transcriptCaption : translationCaption;
+
+    // Object URL for the uploaded media, revoked when the file changes
+    useEffect(() => {
+        if (!mediaFile) {
+            setMediaUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(mediaFile);
+        setMediaUrl(url);
+        setPlaybackTime(0);
+        return () => URL.revokeObjectURL(url);
+    }, [mediaFile]);
+
+    const handleSeekToSegment = (segment: TranscriptionSegment) => {
+        if (!mediaElementRef.current) return;
+        mediaElementRef.current.currentTime = segment.startTime / 1000;
+        setPlaybackTime(segment.startTime);
+        mediaElementRef.current.play().catch(() => {});
+    };
 
     // API Key Management
     useEffect(() => {
@@ -258,46 +363,300 @@ const App: React.FC = () => {
 
 
     const resetScribeState = () => {
+        burnInAbortRef.current?.abort();
+        dubbingAbortRef.current?.abort();
+        handleStopSpeaking();
+        setDubbingOverruns([]);
         setStatus(AppStatus.IDLE);
-        setSegments([]);
-        setTranslatedSegments([]);
+        setTranscript({ segments: [], translatedSegments: [] });
+        transcriptHistory.clearHistory();
+        setMediaFile(null);
+        setCompressedRecording(null);
+        setSpeakerNames({});
+        setProjectGlossary([]);
+        setActiveProject(null);
+        setSavedTranslations({});
+        setTranslationLanguage(null);
+        setTranscriptionJob(null);
         setCurrentSegment({ text: '', startTime: null });
         setError(null);
         recordingStartTimeRef.current = 0;
+        recordingPausedAtRef.current = null;
+        setIsRecordingPaused(false);
+        liveInterpretationRef.current = null;
+        liveSpeechQueueRef.current?.stop();
+        liveSpeechQueueRef.current = null;
         if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
         progressIntervalRef.current = null;
         setProgress(0);
         setProgressLabel('');
-        isTranscriptionCancelledRef.current = false;
     };
     
     useEffect(() => {
         localStorage.setItem('transcriptionModel', transcriptionModel);
     }, [transcriptionModel]);
+
+    useEffect(() => {
+        localStorage.setItem('providerId', providerId);
+    }, [providerId]);
+
+    useEffect(() => {
+        localStorage.setItem('diarizeSpeakers', String(diarizeSpeakers));
+    }, [diarizeSpeakers]);
+
+    useEffect(() => {
+        localStorage.setItem('wordTimestamps', String(wordTimestamps));
+    }, [wordTimestamps]);
+
+    useEffect(() => {
+        localStorage.setItem('requestConcurrency', String(concurrency));
+    }, [concurrency]);
+
+    useEffect(() => {
+        localStorage.setItem('sourceLanguage', sourceLanguage);
+    }, [sourceLanguage]);
+
+    useEffect(() => {
+        localStorage.setItem('glossary', JSON.stringify(globalGlossary));
+    }, [globalGlossary]);
+
+    useEffect(() => {
+        localStorage.setItem('translationLanguages', JSON.stringify(translationQueue));
+    }, [translationQueue]);
+
+    useEffect(() => {
+        localStorage.setItem('splitAtPauses', String(splitAtPauses));
+        localStorage.setItem('skipSilenceSeconds', String(skipSilenceSeconds));
+    }, [splitAtPauses, skipSilenceSeconds]);
+
+    useEffect(() => {
+        localStorage.setItem('chunkOverlapSeconds', String(chunkOverlapSeconds));
+    }, [chunkOverlapSeconds]);
+
+    useEffect(() => {
+        localStorage.setItem('microphoneId', microphoneId);
+        localStorage.setItem('noiseSuppression', String(noiseSuppression));
+        localStorage.setItem('echoCancellation', String(echoCancellation));
+    }, [microphoneId, noiseSuppression, echoCancellation]);
+
+    useEffect(() => {
+        localStorage.setItem('liveTranslation', String(liveTranslation));
+        localStorage.setItem('liveTranslationLanguage', liveTranslationLanguage);
+        localStorage.setItem('speakLiveTranslation', String(speakLiveTranslation));
+    }, [liveTranslation, liveTranslationLanguage, speakLiveTranslation]);
+
+    useEffect(() => {
+        localStorage.setItem('ttsVoice', ttsVoice);
+        localStorage.setItem('ttsRate', String(ttsRate));
+        localStorage.setItem('ttsStyle', ttsStyle);
+    }, [ttsVoice, ttsRate, ttsStyle]);
+
+    useEffect(() => {
+        localStorage.setItem('localServerConfig', JSON.stringify(localServerConfig));
+    }, [localServerConfig]);
+
+    const updateLocalServerConfig = (changes: Partial<LocalServerConfig>) => {
+        setLocalServerConfig(prev => ({ ...prev, ...changes }));
+    };
+
+    useEffect(() => {
+        localStorage.setItem('assStyle', JSON.stringify(assStyle));
+    }, [assStyle]);
+
+    useEffect(() => {
+        localStorage.setItem('assStylePresets', JSON.stringify(assStylePresets));
+    }, [assStylePresets]);
+
+    useEffect(() => {
+        localStorage.setItem('subtitleRules', JSON.stringify(subtitleRules));
+    }, [subtitleRules]);
+
+    useEffect(() => {
+        localStorage.setItem('reflowSubtitles', String(reflowSubtitles));
+    }, [reflowSubtitles]);
+
+    const handleSaveAssPreset = () => {
+        const name = assStyle.name.trim();
+        if (!name) return;
+        setAssStylePresets(prev => [...prev.filter(p => p.name !== name), { ...assStyle, name }]);
+    };
+
+    const handleDeleteAssPreset = (name: string) => {
+        setAssStylePresets(prev => prev.filter(p => p.name !== name));
+    };
+
+    // --- Project history ---
+    const refreshProjects = useCallback(async () => {
+        try {
+            setProjects(await listProjects());
+            setStorageUsage(await getStorageUsage());
+        } catch (err) {
+            console.error("Failed to load project history:", err);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshProjects();
+        requestPersistentStorage().catch(() => {});
+    }, [refreshProjects]);
+
+    // Every translation of the current project, including the one on screen
+    const allTranslations = translationLanguage && translatedSegments.length > 0
+        ? { ...savedTranslations, [translationLanguage]: translatedSegments }
+        : savedTranslations;
+
+    // The language chosen for the job, else the one detected in most chunks; recordings use the setting
+    const detectedLanguages = useMemo(() => transcriptionJob ? getDetectedLanguages(transcriptionJob) : [], [transcriptionJob]);
+    const transcriptLanguage: string | undefined = transcriptionJob
+        ? transcriptionJob.language ?? detectedLanguages[0]?.code
+        : sourceLanguage !== 'auto' ? sourceLanguage : undefined;
+    // Told to the translation model; a mixed recording names every language heard
+    const transcriptLanguageName = detectedLanguages.length > 1
+        ? detectedLanguages.map(d => getLanguageName(d.code)).join(' and ')
+        : transcriptLanguage ? getLanguageName(transcriptLanguage) : undefined;
+    // Only a transcript entirely in one language has nothing to translate into that language
+    const isTranscriptLanguage = (code: string): boolean =>
+        !!transcriptLanguage && detectedLanguages.length <= 1 && isSameLanguage(code, transcriptLanguage);
+
+    // Autosave the current project shortly after its content changes, including mid-transcription
+    useEffect(() => {
+        if (!activeProject) return;
+        const timer = window.setTimeout(async () => {
+            const snapshot = projectSnapshot(segments, allTranslations, speakerNames, transcriptionJob, projectGlossary);
+            if (snapshot === lastSavedSnapshotRef.current) return;
+            try {
+                await saveProject({
+                    ...activeProject,
+                    updatedAt: Date.now(),
+                    ...(mediaFile ? { media: mediaFile } : {}),
+                    segments,
+                    translations: allTranslations,
+                    speakerNames,
+                    ...(transcriptionJob ? { job: transcriptionJob } : {}),
+                    ...(projectGlossary.length > 0 ? { glossary: projectGlossary } : {}),
+                });
+                lastSavedSnapshotRef.current = snapshot;
+                refreshProjects();
+            } catch (err: any) {
+                console.error("Failed to save project:", err);
+                setError(`Failed to save the project to browser storage: ${err.message || err}`);
+            }
+        }, PROJECT_AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [activeProject, segments, translatedSegments, savedTranslations, translationLanguage, speakerNames, transcriptionJob, projectGlossary, mediaFile, refreshProjects]);
+
+    const startProject = (name: string) => {
+        lastSavedSnapshotRef.current = '';
+        setActiveProject({ id: createProjectId(), name, createdAt: Date.now(), providerId, model: activeModelName });
+    };
+
+    const handleOpenProject = async (id: string) => {
+        try {
+            const project = await getProject(id);
+            if (!project) {
+                refreshProjects();
+                return;
+            }
+            resetScribeState();
+            const { media, segments: projectSegments, translations, speakerNames: names, job, glossary = [], updatedAt, ...meta } = project;
+            // Show the translation for the selected language when there is one, otherwise the first saved one
+            const language = translations[targetLanguage] ? targetLanguage : Object.keys(translations)[0] ?? null;
+            const { [language ?? '']: shown = [], ...others } = translations;
+            lastSavedSnapshotRef.current = projectSnapshot(projectSegments, translations, names, job ?? null, glossary);
+            setActiveProject(meta);
+            setMediaFile(media ?? null);
+            setTranscript({ segments: projectSegments, translatedSegments: shown });
+            setSavedTranslations(others);
+            setTranslationLanguage(language);
+            if (language) setTargetLanguage(language);
+            setSpeakerNames(names);
+            setTranscriptionJob(job ?? null);
+            setProjectGlossary(glossary);
+            setStatus(AppStatus.FINISHED);
+        } catch (err: any) {
+            console.error("Failed to open project:", err);
+            setError(`Failed to open the project: ${err.message || err}`);
+        }
+    };
+
+    const handleRenameProject = async (id: string, name: string) => {
+        try {
+            const project = await getProject(id);
+            if (!project) return;
+            await saveProject({ ...project, name });
+            setActiveProject(prev => prev && prev.id === id ? { ...prev, name } : prev);
+            refreshProjects();
+        } catch (err: any) {
+            console.error("Failed to rename project:", err);
+            setError(`Failed to rename the project: ${err.message || err}`);
+        }
+    };
+
+    const handleDuplicateProject = async (id: string) => {
+        try {
+            const project = await getProject(id);
+            if (!project) return;
+            const now = Date.now();
+            await saveProject({ ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now });
+            refreshProjects();
+        } catch (err: any) {
+            console.error("Failed to duplicate project:", err);
+            setError(`Failed to duplicate the project: ${err.message || err}`);
+        }
+    };
+
+    const handleDeleteProject = async (id: string) => {
+        try {
+            await deleteProject(id);
+            // The transcript stays on screen but is no longer saved
+            setActiveProject(prev => prev && prev.id === id ? null : prev);
+            refreshProjects();
+        } catch (err: any) {
+            console.error("Failed to delete project:", err);
+            setError(`Failed to delete the project: ${err.message || err}`);
+        }
+    };
+
+    const handleCleanupProjects = async (olderThanDays: number) => {
+        try {
+            await deleteProjectsUpdatedBefore(Date.now() - olderThanDays * DAY_MS, activeProject?.id);
+            refreshProjects();
+        } catch (err: any) {
+            console.error("Failed to clean up projects:", err);
+            setError(`Failed to clean up old projects: ${err.message || err}`);
+        }
+    };
+
+    // Switching languages swaps in a saved translation for that language when the project has one
+    const toggleTranslationLanguage = (code: string, selected: boolean) => {
+        setTranslationQueue(prev => selected
+            ? LANGUAGES.map(l => l.code).filter(c => c === code || prev.includes(c))
+            : prev.filter(c => c !== code));
+    };
+
+    const handleTargetLanguageChange = (code: string) => {
+        setTargetLanguage(code);
+        if (code === translationLanguage || !savedTranslations[code]) return;
+        const { [code]: next, ...rest } = allTranslations;
+        setSavedTranslations(rest);
+        setTranslatedSegments(next);
+        setTranslationLanguage(code);
+        transcriptHistory.clearHistory();
+    };
     
     const cleanupLiveRecording = useCallback(async () => {
         if (streamRef.current) {
             streamRef.current.getTracks().forEach(track => track.stop());
             streamRef.current = null;
         }
-        if (scriptProcessorRef.current) {
-            scriptProcessorRef.current.disconnect();
-            scriptProcessorRef.current = null;
-        }
-        if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-            await audioContextRef.current.close();
-            audioContextRef.current = null;
+        if (liveCaptureRef.current) {
+            await liveCaptureRef.current.stop();
+            liveCaptureRef.current = null;
         }
+        inputLevelRef.current = null;
 
-        if (sessionPromiseRef.current) {
-            try {
-                const session = await sessionPromiseRef.current;
-                session.close();
-            } catch (e) {
-                console.error("Error closing session:", e);
-            }
-            sessionPromiseRef.current = null;
-        }
+        liveConnectionRef.current?.close();
+        liveConnectionRef.current = null;
     }, []);
 
     // Unmount cleanup
@@ -307,15 +666,51 @@ const App: React.FC = () => {
             if (progressIntervalRef.current) {
                 clearInterval(progressIntervalRef.current);
             }
-            if (audioSourceRef.current) {
-                audioSourceRef.current.stop();
-            }
+            ttsQueueRef.current?.stop();
             if (outputAudioContextRef.current && outputAudioContextRef.current.state !== 'closed') {
                 outputAudioContextRef.current.close();
             }
         };
     }, [cleanupLiveRecording]);
 
+    // Milliseconds of recording so far, not counting pauses; the clock stands still while paused
+    const getRecordingTime = (): number => (recordingPausedAtRef.current ?? Date.now()) - recordingStartTimeRef.current;
+
+    /**
+     * Translates a finished live turn after the turns before it and appends it to the translation.
+     * A turn that cannot be translated keeps its source text marked stale, so the translation stays
+     * aligned with the transcript and "Re-translate stale" can fill it in after recording.
+     */
+    const queueLiveTranslation = useCallback((segment: TranscriptionSegment) => {
+        const live: LiveInterpretation | null = liveInterpretationRef.current;
+        if (!live) return;
+        liveTranslationChainRef.current = liveTranslationChainRef.current.then(async () => {
+            let translated: TranscriptionSegment;
+            try {
+                const [result] = await withRetry(() => live.provider.translateSegments([segment], live.languageName, live.options));
+                if (!result?.text) throw new Error('No translation received.');
+                translated = { ...segment, text: result.text };
+            } catch (err: any) {
+                console.error("Live translation error:", err);
+                translated = { ...segment, stale: true };
+                setError(`Failed to translate a live segment: ${err.message || 'An unknown error occurred.'}. It is marked for re-translation.`);
+            }
+            // The recording was discarded while this turn was being translated
+            if (liveInterpretationRef.current !== live) return;
+            setTranslatedSegments(prev => [...prev, translated]);
+            if (!live.speak || translated.stale) return;
+            liveSpeechChainRef.current = liveSpeechChainRef.current.then(async () => {
+                try {
+                    const speech = await live.provider.synthesize(translated.text, live.speech);
+                    if (liveInterpretationRef.current === live) await liveSpeechQueueRef.current?.enqueue(speech);
+                } catch (err: any) {
+                    console.error("Live TTS error:", err);
+                    setError(`Failed to speak a live translation: ${err.message || 'An unknown error occurred.'}`);
+                }
+            });
+        });
+    }, [setTranslatedSegments]);
+
     const handleStopRecording = useCallback(async () => {
         setStatus(AppStatus.PROCESSING);
 
@@ -324,94 +719,118 @@ const App: React.FC = () => {
             const lastSegment: TranscriptionSegment = {
                 text: currentSegmentRef.current.text.trim(),
                 startTime: currentSegmentRef.current.startTime,
-                endTime: Date.now() - recordingStartTimeRef.current,
+                endTime: getRecordingTime(),
             };
             setSegments(prev => [...prev, lastSegment]);
             setCurrentSegment({ text: '', startTime: null });
+            queueLiveTranslation(lastSegment);
         }
 
+        const compressed = await compressedRecorderRef.current?.stop() ?? null;
+        compressedRecorderRef.current = null;
         await cleanupLiveRecording();
+        // The WAV becomes the project's media, so the recording can be played back and transcribed as a file
+        const recorded = pcmRecordingRef.current ? pcmRecordingToAudioBuffer(pcmRecordingRef.current) : null;
+        pcmRecordingRef.current = null;
+        if (recorded) {
+            setMediaFile(new File([audioBufferToWav(recorded)], `${recordingNameRef.current}.wav`, { type: 'audio/wav' }));
+            setCompressedRecording(compressed);
+        }
+        recordingPausedAtRef.current = null;
+        setIsRecordingPaused(false);
+        // The translation must be complete before it can be edited or translated again
+        await liveTranslationChainRef.current;
         setStatus(AppStatus.FINISHED);
-    }, [cleanupLiveRecording]);
+    }, [cleanupLiveRecording, queueLiveTranslation]);
 
     const handleStartRecording = useCallback(async () => {
-        if (isApiKeyMissing) return;
+        if (isProviderMissing || !provider.supportsLive) return;
         resetScribeState();
-        setStatus(AppStatus.RECORDING);
         recordingStartTimeRef.current = Date.now();
+        recordingNameRef.current = `Recording ${new Date(recordingStartTimeRef.current).toLocaleString()}`;
+        startProject(recordingNameRef.current);
+        setStatus(AppStatus.RECORDING);
+        if (liveTranslation) {
+            liveInterpretationRef.current = {
+                provider,
+                languageName: getLanguageName(liveTranslationLanguage),
+                options: {
+                    // A new recording has no project glossary yet
+                    glossary: getGlossaryForLanguage(globalGlossary, [], liveTranslationLanguage),
+                    sourceLanguage: sourceLanguage !== 'auto' ? getLanguageName(sourceLanguage) : undefined,
+                },
+                speak: speakLiveTranslation && provider.supportsSpeech,
+                speech: speechOptions,
+            };
+            liveTranslationChainRef.current = Promise.resolve();
+            liveSpeechChainRef.current = Promise.resolve();
+            setTranslationLanguage(liveTranslationLanguage);
+            setTargetLanguage(liveTranslationLanguage);
+            if (speakLiveTranslation && provider.supportsSpeech) {
+                // Created during the click so the browser lets it play
+                if (!outputAudioContextRef.current) {
+                    outputAudioContextRef.current = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+                }
+                liveSpeechQueueRef.current = createSpeechQueue(outputAudioContextRef.current);
+            }
+        }
         
         try {
-            const ai = new GoogleGenAI({ apiKey });
-            const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const { stream: audioStream, usedDefault } = await openMicrophone({ deviceId: microphoneId, noiseSuppression, echoCancellation });
+            if (usedDefault) {
+                // The saved microphone is no longer connected
+                setMicrophoneId('');
+            }
             streamRef.current = audioStream;
-
-            sessionPromiseRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                callbacks: {
-                    onopen: () => console.log('Session opened.'),
-                    onmessage: (message: LiveServerMessage) => {
-                        if (message.serverContent?.inputTranscription) {
-                            const { text } = message.serverContent.inputTranscription;
-                             setCurrentSegment(prev => {
-                                const isNew = prev.text === '';
-                                return {
-                                    text: prev.text + text,
-                                    startTime: isNew ? Date.now() - recordingStartTimeRef.current : prev.startTime,
-                                };
-                            });
-                        }
-                        if (message.serverContent?.turnComplete) {
-                            if (currentSegmentRef.current.text.trim() && currentSegmentRef.current.startTime !== null) {
-                                const newSegment: TranscriptionSegment = {
-                                    text: currentSegmentRef.current.text.trim(),
-                                    startTime: currentSegmentRef.current.startTime,
-                                    endTime: Date.now() - recordingStartTimeRef.current,
-                                };
-                                setSegments(prev => [...prev, newSegment]);
-                                setCurrentSegment({ text: '', startTime: null });
-                            }
-                        }
-                    },
-                    onerror: (e: ErrorEvent) => {
-                        console.error('Session error:', e);
-                        setError('A real-time connection error occurred. The recording has been stopped.');
-                        handleStopRecording();
-                    },
-                    onclose: (e: CloseEvent) => {
-                        console.log('Session closed.');
-                    },
+            compressedRecorderRef.current = startCompressedRecording(audioStream);
+
+            // Sessions are renewed and reconnected underneath; times come from the audio each one received
+            liveConnectionRef.current = createLiveConnection(provider, {
+                onTranscription: (text, time) => {
+                    setCurrentSegment(prev => {
+                        const isNew = prev.text === '';
+                        return {
+                            text: prev.text + text,
+                            startTime: isNew ? time : prev.startTime,
+                        };
+                    });
+                },
+                onTurnComplete: (time) => {
+                    if (currentSegmentRef.current.text.trim() && currentSegmentRef.current.startTime !== null) {
+                        const newSegment: TranscriptionSegment = {
+                            text: currentSegmentRef.current.text.trim(),
+                            startTime: currentSegmentRef.current.startTime,
+                            endTime: Math.max(time, currentSegmentRef.current.startTime),
+                        };
+                        setSegments(prev => [...prev, newSegment]);
+                        setCurrentSegment({ text: '', startTime: null });
+                        queueLiveTranslation(newSegment);
+                    }
                 },
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
+                onStateChange: setLiveConnectionState,
+                onFailed: (e) => {
+                    console.error('Session error:', e);
+                    setError('The real-time connection was lost and could not be restored. The recording has been stopped.');
+                    handleStopRecording();
                 },
             });
             
-            const context = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            audioContextRef.current = context;
-            const source = context.createMediaStreamSource(audioStream);
-            const processor = context.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = processor;
-
-            processor.onaudioprocess = (audioProcessingEvent) => {
-                const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                const l = inputData.length;
-                const int16 = new Int16Array(l);
-                for (let i = 0; i < l; i++) {
-                    int16[i] = inputData[i] * 32768;
+            pcmRecordingRef.current = createPcmRecording(LIVE_SAMPLE_RATE);
+            // Frames arrive already resampled and encoded by the capture worker
+            liveCaptureRef.current = await startLiveCapture(audioStream, (frame) => {
+                inputLevelRef.current = frame.level;
+                // The meter keeps working while paused, but nothing is kept or sent
+                if (recordingPausedAtRef.current !== null) return;
+                if (pcmRecordingRef.current) {
+                    appendPcmFrame(pcmRecordingRef.current, frame.pcm, getRecordingTime());
                 }
-                const pcmBlob = {
-                    data: encode(new Uint8Array(int16.buffer)),
-                    mimeType: 'audio/pcm;rate=16000',
-                };
-                
-                sessionPromiseRef.current?.then((session) => {
-                    session.sendRealtimeInput({ media: pcmBlob });
+                liveConnectionRef.current?.sendAudio({
+                    data: frame.base64,
+                    mimeType: `audio/pcm;rate=${LIVE_SAMPLE_RATE}`,
+                    endTime: getRecordingTime(),
+                    duration: (frame.pcm.length / LIVE_SAMPLE_RATE) * 1000,
                 });
-            };
-            source.connect(processor);
-            processor.connect(context.destination);
-            
+            });
         } catch (err: any) {
             console.error("Failed to start recording:", err);
             let errorMessage = 'Failed to start recording. Please try again.';
@@ -422,8 +841,29 @@ const App: React.FC = () => {
             }
             setError(errorMessage);
             setStatus(AppStatus.ERROR);
+            // The microphone and session may already be open when the audio pipeline fails
+            pcmRecordingRef.current = null;
+            compressedRecorderRef.current = null;
+            cleanupLiveRecording();
         }
-    }, [handleStopRecording, apiKey, isApiKeyMissing]);
+    }, [handleStopRecording, cleanupLiveRecording, queueLiveTranslation, provider, isProviderMissing, liveTranslation, liveTranslationLanguage, speakLiveTranslation, speechOptions, globalGlossary, sourceLanguage, microphoneId, noiseSuppression, echoCancellation]);
+
+    // Pausing freezes the recording clock, so resumed speech continues the timeline where it stopped
+    const handleTogglePauseRecording = () => {
+        if (status !== AppStatus.RECORDING) return;
+        if (recordingPausedAtRef.current === null) {
+            recordingPausedAtRef.current = Date.now();
+            compressedRecorderRef.current?.pause();
+            setIsRecordingPaused(true);
+            // Lets the server finish the sentence in progress instead of waiting for more audio
+            liveConnectionRef.current?.endAudioStream();
+        } else {
+            recordingStartTimeRef.current += Date.now() - recordingPausedAtRef.current;
+            recordingPausedAtRef.current = null;
+            compressedRecorderRef.current?.resume();
+            setIsRecordingPaused(false);
+        }
+    };
 
     const startProgressSimulation = (label: string) => {
         setProgress(0);
@@ -455,144 +895,231 @@ const App: React.FC = () => {
         setProgressLabel('');
     };
 
-    const transcribeAudioChunk = async (mimeType: string, buffer: ArrayBuffer, timeOffsetSeconds: number) => {
-        if (isTranscriptionCancelledRef.current || isApiKeyMissing) return;
+    const transcribeAudioChunk = async (
+        mimeType: string,
+        buffer: ArrayBuffer,
+        timeOffsetSeconds: number,
+        options: TranscriptionOptions = {}
+    ): Promise<TranscriptionResult | undefined> => {
+        if (isTranscriptionCancelledRef.current || isProviderMissing) return;
         
-        const ai = new GoogleGenAI({ apiKey });
-        const base64Data = encode(new Uint8Array(buffer));
-        
-        const audioPart = { inlineData: { mimeType, data: base64Data } };
-        const textPart = { text: `Transcribe this audio file accurately. The output must be a valid JSON array of objects. Each object represents a sentence and must have "startTime", "endTime" (in seconds with 3 decimal places), and "text". Example: [{"startTime": 0.512, "endTime": 2.123, "text": "This is the first sentence."}]` };
-
-        const schema = {
-            type: Type.ARRAY,
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    startTime: { type: Type.NUMBER },
-                    endTime: { type: Type.NUMBER },
-                    text: { type: Type.STRING },
-                },
-                required: ['startTime', 'endTime', 'text'],
-            },
-        };
-
-        const response = await ai.models.generateContent({
-            model: transcriptionModel,
-            contents: { parts: [audioPart, textPart] },
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: schema,
-            },
-        });
+        const result = await withRetry(
+            () => provider.transcribe({ mimeType, data: buffer }, {
+                ...options,
+                diarize: diarizeSpeakers && provider.supportsDiarization,
+                wordTimestamps,
+            }),
+            {
+                shouldStop: () => isTranscriptionCancelledRef.current,
+                onRetry: (attempt, delayMs) => setProgressLabel(`Request limited by the server, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})...`),
+            }
+        );
         
         if (isTranscriptionCancelledRef.current) return;
 
-        const parsedSegments = JSON.parse(response.text);
-        const newSegments: TranscriptionSegment[] = parsedSegments.map((s: any) => ({
-            text: s.text,
-            startTime: Math.round((s.startTime + timeOffsetSeconds) * 1000),
-            endTime: Math.round((s.endTime + timeOffsetSeconds) * 1000),
+        const offsetMs = Math.round(timeOffsetSeconds * 1000);
+        const newSegments: TranscriptionSegment[] = result.segments.map(s => ({
+            ...s,
+            startTime: s.startTime + offsetMs,
+            endTime: s.endTime + offsetMs,
+            ...(s.words ? { words: s.words.map(w => ({ ...w, startTime: w.startTime + offsetMs, endTime: w.endTime + offsetMs })) } : {}),
         }));
 
-        setSegments(prev => [...prev, ...newSegments]);
+        return { ...result, segments: newSegments };
     };
 
-    const chunkAndTranscribeAudio = async (audioBuffer: AudioBuffer) => {
-        const totalDuration = audioBuffer.duration;
-        const numChunks = Math.ceil(totalDuration / CHUNK_DURATION_SECONDS);
+    /**
+     * Transcribes the given chunks, up to `concurrency` at a time, checkpointing each one in the job as it
+     * finishes. A failed chunk is marked and skipped so it can be retried later; no new chunks are started
+     * after several failures in a row. `original` is the uploaded file itself, sent as-is when the whole
+     * file fits in one chunk.
+     */
+    const transcribeChunks = async (
+        audioBuffer: AudioBuffer,
+        job: TranscriptionJob,
+        indices: number[],
+        original?: { mimeType: string; data: ArrayBuffer }
+    ): Promise<TranscriptionJob> => {
+        let current = job;
+        let consecutiveFailures = 0;
+        let completed = 0;
+        let inFlight = 0;
+        const shouldStop = () => isTranscriptionCancelledRef.current || consecutiveFailures >= MAX_CONSECUTIVE_CHUNK_FAILURES;
+
+        const reportProgress = () => {
+            setProgress((completed / indices.length) * 100);
+            setProgressLabel(current.chunks.length === 1
+                ? 'Transcribing audio...'
+                : `Transcribing chunks: ${completed} of ${indices.length} done${inFlight > 0 ? `, ${inFlight} in progress` : ''}...`);
+        };
 
-        for (let i = 0; i < numChunks; i++) {
-            if (isTranscriptionCancelledRef.current) {
-                break;
+        const transcribeChunk = async (index: number) => {
+            const chunk = current.chunks[index];
+            inFlight++;
+            reportProgress();
+            try {
+                // The original file is only sent as-is when it is the whole job, with no silence skipped
+                const coversFile = current.chunks.length === 1 && chunk.offsetSeconds === 0 && chunk.durationSeconds >= current.totalDurationSeconds;
+                const audio = coversFile && original
+                    ? original
+                    : { mimeType: 'audio/wav', data: await sliceAudioBufferToWav(audioBuffer, chunk.offsetSeconds, chunk.durationSeconds).arrayBuffer() };
+                // Context is taken from whatever chunks have finished by the time this one starts
+                const result = await transcribeAudioChunk(audio.mimeType, audio.data, chunk.offsetSeconds, getChunkContext(current, index));
+                if (!result) return;
+                const nextChunk = current.chunks[index + 1];
+                setSegments(prev => mergeChunkSegments(prev, result.segments, {
+                    startMs: Math.round(chunk.offsetSeconds * 1000),
+                    nextSeamMs: nextChunk ? Math.round(nextChunk.offsetSeconds * 1000) : null,
+                    overlapMs: Math.round((current.overlapSeconds ?? 0) * 1000), // Jobs saved before overlapping windows have none
+                }));
+                // Undoing past a merge would drop the chunk's segments while the job counts it as done
+                transcriptHistory.clearHistory();
+                current = updateChunk(current, {
+                    index,
+                    offsetSeconds: chunk.offsetSeconds,
+                    durationSeconds: chunk.durationSeconds,
+                    status: 'done',
+                    segments: result.segments,
+                    ...(result.speakers ? { speakers: result.speakers } : {}),
+                    ...(result.language ? { language: result.language } : {}),
+                });
+                consecutiveFailures = 0;
+            } catch (err: any) {
+                if (isTranscriptionCancelledRef.current) return;
+                console.error(`Error transcribing chunk ${index + 1}:`, err);
+                current = updateChunk(current, { ...chunk, status: 'failed', error: err.message || 'An unknown error occurred.' });
+                consecutiveFailures++;
+            } finally {
+                inFlight--;
             }
+            completed++;
+            setTranscriptionJob(current);
+            reportProgress();
+        };
 
-            setProgressLabel(`Transcribing chunk ${i + 1} of ${numChunks}...`);
-            setProgress(((i) / numChunks) * 100);
+        // Speaker labels are only consistent if later chunks know the voices found earlier, so a
+        // diarized run without any finished chunk transcribes its first chunk on its own
+        const isDiarizing = diarizeSpeakers && provider.supportsDiarization;
+        const hasFinishedChunk = current.chunks.some(c => c.status === 'done');
+        const [first, ...rest] = indices;
+        const batches = isDiarizing && !hasFinishedChunk && rest.length > 0 ? [[first], rest] : [indices];
+        for (const batch of batches) {
+            if (shouldStop()) break;
+            await runConcurrently(batch, concurrency, transcribeChunk, shouldStop);
+        }
+        return current;
+    };
 
-            const offset = i * CHUNK_DURATION_SECONDS;
-            const chunkDuration = Math.min(CHUNK_DURATION_SECONDS, totalDuration - offset);
-            
-            const frameOffset = Math.floor(offset * audioBuffer.sampleRate);
-            const frameCount = Math.floor(chunkDuration * audioBuffer.sampleRate);
-            
-            const chunkContext = new ((window as any).AudioContext || (window as any).webkitAudioContext)();
-            const chunkBuffer = chunkContext.createBuffer(
-                audioBuffer.numberOfChannels,
-                frameCount,
-                audioBuffer.sampleRate
-            );
-
-            for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-                const channelData = audioBuffer.getChannelData(channel);
-                const chunkChannelData = chunkBuffer.getChannelData(channel);
-                chunkChannelData.set(channelData.subarray(frameOffset, frameOffset + frameCount));
-            }
+    // Runs (or resumes) a job and reports chunks that are still missing afterwards
+    const runTranscriptionJob = async (
+        audioBuffer: AudioBuffer,
+        job: TranscriptionJob,
+        indices: number[],
+        original?: { mimeType: string; data: ArrayBuffer }
+    ) => {
+        const run = transcribeChunks(audioBuffer, job, indices, original);
+        transcriptionRunRef.current = run;
+        const finished = await run;
+        if (isTranscriptionCancelledRef.current) return;
 
-            const wavBlob = audioBufferToWav(chunkBuffer);
-            const chunkArrayBuffer = await wavBlob.arrayBuffer();
-            
-            await transcribeAudioChunk('audio/wav', chunkArrayBuffer, offset);
+        const missing = getIncompleteChunkIndices(finished);
+        if (missing.length === finished.chunks.length) {
+            const lastError = finished.chunks.find(c => c.error)?.error || 'An unknown error occurred.';
+            setError(`Failed to transcribe the file: ${lastError}. Use "Resume" to try again.`);
+            setStatus(AppStatus.ERROR);
+            failProgress();
+            return;
+        }
+        if (missing.length > 0) {
+            setError(`${missing.length} of ${finished.chunks.length} chunks could not be transcribed. Retry them below.`);
         }
+        completeProgress();
+        setTimeout(() => {
+            setStatus(AppStatus.FINISHED);
+        }, 500);
+    };
+
+    // Lets a cancelled chunk loop finish its last request before a new run resets the cancel flag
+    const waitForCancelledRun = async () => {
+        await transcriptionRunRef.current?.catch(() => {});
+        transcriptionRunRef.current = null;
     };
 
     const processAndTranscribeFile = async (file: File) => {
+        await waitForCancelledRun();
         resetScribeState();
+        isTranscriptionCancelledRef.current = false;
+        startProject(file.name.replace(/\.[^.]+$/, '') || file.name);
+        // Kept for the synchronized player once the transcript is ready
+        setMediaFile(file);
         setStatus(AppStatus.PROCESSING);
         setProgressLabel('Preparing audio...');
         setProgress(0);
         setError(null);
     
         try {
-            const audioCtx = new ((window as any).AudioContext || (window as any).webkitAudioContext)();
             const arrayBuffer = await file.arrayBuffer();
-
             if (isTranscriptionCancelledRef.current) return;
 
-            const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer.slice(0));
-            
-            if (audioBuffer.duration <= CHUNK_DURATION_SECONDS) {
-                setProgressLabel('Transcribing audio...');
-                await transcribeAudioChunk(file.type, arrayBuffer, 0);
-            } else {
-                await chunkAndTranscribeAudio(audioBuffer);
-            }
-    
-            if (isTranscriptionCancelledRef.current) {
-                resetScribeState();
-                return;
-            }
+            const audioBuffer = await decodeMediaAudio(file, arrayBuffer.slice(0));
+            // Cuts at pauses need no overlap; fixed slices are the fallback when no speech is detected
+            const windows = splitAtPauses ? planSpeechChunks(audioBuffer, { targetSeconds: CHUNK_DURATION_SECONDS, skipSilenceSeconds }) : [];
+            const plannedJob = windows.length > 0
+                ? createTranscriptionJobFromWindows(audioBuffer.duration, windows)
+                : createTranscriptionJob(audioBuffer.duration, CHUNK_DURATION_SECONDS, chunkOverlapSeconds);
+            // Kept with the job so resumed chunks use the same language as the rest
+            const job = sourceLanguage !== 'auto' ? { ...plannedJob, language: sourceLanguage } : plannedJob;
+            setTranscriptionJob(job);
+            // A video is never sent as-is; its chunks are cut from the extracted soundtrack
+            await runTranscriptionJob(audioBuffer, job, getIncompleteChunkIndices(job), isVideoFile(file) ? undefined : { mimeType: file.type, data: arrayBuffer });
+        } catch (err: any) {
+            if (isTranscriptionCancelledRef.current) return;
+            console.error("Error processing file:", err);
+            const message = err.message || 'An unknown error occurred.';
+            setError(`Failed to process the file: ${message}. Please check the file format or try again.`);
+            setStatus(AppStatus.ERROR);
+            failProgress();
+        }
+    };
 
-            completeProgress();
-            setTimeout(() => {
-                setStatus(AppStatus.FINISHED);
-            }, 500);
+    // Continues an interrupted job from its first missing chunk, or retries the given chunks only
+    const handleResumeTranscription = async (indices?: number[]) => {
+        if (!mediaFile || !transcriptionJob || isProviderMissing) return;
+        setStatus(AppStatus.PROCESSING);
+        setProgressLabel('Preparing audio...');
+        setProgress(0);
+        setError(null);
+        await waitForCancelledRun();
+        isTranscriptionCancelledRef.current = false;
 
+        try {
+            const arrayBuffer = await mediaFile.arrayBuffer();
+            const audioBuffer = await decodeMediaAudio(mediaFile, arrayBuffer.slice(0));
+            const original = isVideoFile(mediaFile) ? undefined : { mimeType: mediaFile.type, data: arrayBuffer };
+            await runTranscriptionJob(audioBuffer, transcriptionJob, indices ?? getIncompleteChunkIndices(transcriptionJob), original);
         } catch (err: any) {
-            if (isTranscriptionCancelledRef.current) {
-                resetScribeState();
-                return;
-            }
-            console.error("Error processing file:", err);
+            console.error("Error resuming transcription:", err);
             const message = err.message || 'An unknown error occurred.';
-            setError(`Failed to process the audio file: ${message}. Please check the file format or try again.`);
+            setError(`Failed to resume transcription: ${message}.`);
             setStatus(AppStatus.ERROR);
             failProgress();
         }
     };
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        if (isApiKeyMissing) return;
+        if (isProviderMissing) return;
         const file = event.target.files?.[0];
         if (file) {
-            if (!file.type.startsWith('audio/')) {
-                setError('Invalid file type. Please upload an audio file.');
+            const isVideoUpload = isVideoFile(file);
+            if (!isVideoUpload && !isAudioFile(file)) {
+                setError('Invalid file type. Please upload an audio or video file.');
                 setStatus(AppStatus.ERROR);
                 if (event.target) event.target.value = '';
                 return;
             }
-            if (file.size > MAX_AUDIO_FILE_SIZE_BYTES) {
-                setError(`File is too large. Maximum size is ${MAX_AUDIO_FILE_SIZE_BYTES / 1024 / 1024} MB.`);
+            const maxSize = isVideoUpload ? MAX_VIDEO_FILE_SIZE_BYTES : MAX_AUDIO_FILE_SIZE_BYTES;
+            if (file.size > maxSize) {
+                setError(`File is too large. Maximum size is ${maxSize / 1024 / 1024} MB for ${isVideoUpload ? 'video' : 'audio'} files.`);
                 setStatus(AppStatus.ERROR);
                 if (event.target) event.target.value = '';
                 return;
@@ -604,215 +1131,390 @@ const App: React.FC = () => {
         }
     };
 
+    // Stops after the chunk in flight; finished chunks stay checkpointed so the run can be resumed
     const handleCancelTranscription = () => {
         isTranscriptionCancelledRef.current = true;
-        resetScribeState();
+        failProgress();
+        setStatus(transcriptionJob && getIncompleteChunkIndices(transcriptionJob).length < transcriptionJob.chunks.length ? AppStatus.FINISHED : AppStatus.IDLE);
+    };
+
+    /**
+     * Translates transcript segments in sentence-aligned batches, each with the segments around it as
+     * context. A batch that comes back with a different number of segments is requested again and then
+     * fails the whole translation, since a merged or dropped segment would shift every one after it.
+     */
+    const translateTranscript = async (source: TranscriptionSegment[], languageName: string, options: TranslationOptions): Promise<TranscriptionSegment[]> => {
+        const batches = planSubtitleBatches(source.map(s => s.text), TRANSCRIPT_TRANSLATE_CHUNK_SIZE);
+        let failed = false;
+        const results = await runConcurrently(batches, concurrency, async ({ start, end, previousTexts, nextTexts }, i) => {
+            const batch = source.slice(start, end);
+            for (let attempt = 0; ; attempt++) {
+                const translated = await withRetry(
+                    () => provider.translateSegments(batch, languageName, { ...options, previousTexts, nextTexts }),
+                    { shouldStop: () => failed }
+                ).catch((err) => {
+                    failed = true;
+                    throw err;
+                });
+                if (translated.length === batch.length) return translated;
+                if (attempt >= MAX_TRANSLATION_MISMATCH_RETRIES || failed) {
+                    failed = true;
+                    throw new Error(`Translation API returned a mismatching number of segments for batch ${i + 1}. Expected ${batch.length}, got ${translated.length}.`);
+                }
+            }
+        }, () => failed);
+
+        const translatedSegments: TranscriptionSegment[] = [];
+        for (const result of results) {
+            if (result?.status === 'rejected') throw result.reason;
+            if (result?.status === 'fulfilled') translatedSegments.push(...result.value);
+        }
+        if (translatedSegments.length !== source.length) {
+            throw new Error('Translation was stopped before every segment was translated.');
+        }
+        return translatedSegments;
     };
 
+    /**
+     * Translates into each selected language in turn; every result is kept under its language code.
+     * The transcript's own language is skipped, since "translating" it would only paraphrase it.
+     */
     const handleTranslate = async () => {
-        if (segments.length === 0 || isApiKeyMissing) return;
+        const requested = translationQueue.length > 0 ? translationQueue : [targetLanguage];
+        if (segments.length === 0 || isProviderMissing) return;
+        const queue = requested.filter(code => !isTranscriptLanguage(code));
+        if (queue.length === 0) {
+            setError(`The transcript is already in ${transcriptLanguageName}. Choose a different language to translate into.`);
+            return;
+        }
         setStatus(AppStatus.TRANSLATING);
-        startProgressSimulation('Translating text...');
+        // The translation on screen stays in the project under its own language
+        setSavedTranslations(allTranslations);
+        setTranslationLanguage(null);
         setTranslatedSegments([]);
+        // Undo steps from the previous translation would bring back its segments under the new language
+        transcriptHistory.clearHistory();
         setError(null);
-        try {
-            const ai = new GoogleGenAI({ apiKey });
-            const selectedLang = LANGUAGES.find(l => l.code === targetLanguage);
 
-            const prompt = `Translate the "text" value in each object of the following JSON array to ${selectedLang?.name || 'the selected language'}.
-Return a valid JSON array with the exact same structure and objects, including the same "startTime" and "endTime" values, but with the "text" values translated.
-The number of objects in the output array must match the number of objects in the input array.
-
-Input:
-${JSON.stringify(segments)}
-`;
-
-            const schema = {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        startTime: { type: Type.NUMBER },
-                        endTime: { type: Type.NUMBER },
-                        text: { type: Type.STRING },
-                    },
-                    required: ['startTime', 'endTime', 'text'],
-                },
-            };
-            
-            const response = await ai.models.generateContent({
-                model: transcriptionModel,
-                contents: prompt,
-                 config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: schema,
-                },
+        const results: Record<string, TranscriptionSegment[]> = {};
+        const failures: string[] = [];
+        for (const [position, code] of queue.entries()) {
+            const languageName = getLanguageName(code);
+            startProgressSimulation(queue.length === 1 ? 'Translating text...' : `Translating into ${languageName} (${position + 1} of ${queue.length})...`);
+            try {
+                const glossary = getGlossaryForLanguage(globalGlossary, projectGlossary, code);
+                const translated = await translateTranscript(segments, languageName, { glossary, sourceLanguage: transcriptLanguageName });
+                // Speakers are carried over from the source by position
+                const withSpeakers = translated.map((s, i) => segments[i]?.speaker ? { ...s, speaker: segments[i].speaker } : s);
+                results[code] = withSpeakers;
+                // Saved as soon as it is done, so a later language failing does not lose it
+                setSavedTranslations(prev => ({ ...prev, [code]: withSpeakers }));
+            } catch (err: any) {
+                console.error(`Translation error (${code}):`, err);
+                failures.push(`${languageName}: ${err.message || 'An unknown error occurred.'}`);
+            }
+        }
+
+        const shown = results[targetLanguage] ? targetLanguage : queue.find(code => results[code]);
+        if (!shown) {
+            setError(`Failed to translate text: ${failures.join('; ')}. Please try again.`);
+            setStatus(AppStatus.ERROR);
+            failProgress();
+            return;
+        }
+        if (failures.length > 0) {
+            setError(`Some translations failed: ${failures.join('; ')}. Translate those languages again to retry.`);
+        }
+        completeProgress();
+        setTimeout(() => {
+            setSavedTranslations(prev => {
+                const { [shown]: _, ...rest } = prev;
+                return rest;
             });
+            setTranslatedSegments(results[shown]);
+            setTranslationLanguage(shown);
+            transcriptHistory.clearHistory();
+            setTargetLanguage(shown);
+            setStatus(AppStatus.FINISHED);
+        }, 500);
+    };
+
+    const handleSegmentEdit = (track: 'source' | 'translated', edit: SegmentEdit) => {
+        // Consecutive keystrokes in the same row replace the value instead of adding undo steps
+        const update = edit.type === 'text' && edit.continued ? transcriptHistory.set : transcriptHistory.commit;
+        update(prev => {
+            if (track === 'translated') {
+                const edited = applySegmentEdit(prev.translatedSegments, edit);
+                // A hand-corrected translation is no longer stale
+                return {
+                    ...prev,
+                    translatedSegments: edit.type === 'text' ? edited.map((s, i) => i === edit.index ? { ...s, stale: false } : s) : edited,
+                };
+            }
+            const editedSource = applySegmentEdit(prev.segments, edit);
+            return {
+                segments: editedSource,
+                translatedSegments: markStaleOnEdit ? mirrorEditOnTranslation(prev.translatedSegments, editedSource, edit) : prev.translatedSegments,
+            };
+        });
+    };
 
+    const handleRetranslateStale = async () => {
+        const staleIndices = translatedSegments.map((s, i) => s.stale ? i : -1).filter(i => i >= 0 && segments[i]);
+        if (staleIndices.length === 0 || isProviderMissing || !translationLanguage) return;
+        setStatus(AppStatus.TRANSLATING);
+        startProgressSimulation(`Re-translating ${staleIndices.length} segment(s)...`);
+        setError(null);
+        try {
+            // The language of the translation on screen, whatever the dropdown has been switched to since
+            const languageCode = translationLanguage;
+            const sources = staleIndices.map(i => ({ startTime: segments[i].startTime, endTime: segments[i].endTime, text: segments[i].text }));
+            const speakers = staleIndices.map(i => segments[i].speaker);
+            const glossary = getGlossaryForLanguage(globalGlossary, projectGlossary, languageCode);
+            const translated = await withRetry(() => provider.translateSegments(sources, getLanguageName(languageCode), { glossary, sourceLanguage: transcriptLanguageName }));
+            if (translated.length !== sources.length) {
+                throw new Error(`Expected ${sources.length} segments, got ${translated.length}.`);
+            }
             completeProgress();
-            setTimeout(() => {
-                const parsed = JSON.parse(response.text);
-                setTranslatedSegments(parsed);
-                setStatus(AppStatus.FINISHED);
-            }, 500);
+            transcriptHistory.commit(prev => {
+                const next = [...prev.translatedSegments];
+                staleIndices.forEach((segmentIndex, i) => {
+                    next[segmentIndex] = { ...sources[i], text: translated[i].text, ...(speakers[i] ? { speaker: speakers[i] } : {}) };
+                });
+                return { ...prev, translatedSegments: next };
+            });
+            setStatus(AppStatus.FINISHED);
         } catch (err: any) {
-            console.error("Translation error:", err);
+            console.error("Re-translation error:", err);
             const message = err.message || 'An unknown error occurred.';
-            setError(`Failed to translate text: ${message}. Please try again.`);
-            setStatus(AppStatus.ERROR);
+            setError(`Failed to re-translate segments: ${message}. Please try again.`);
+            setStatus(AppStatus.FINISHED);
             failProgress();
         }
     };
 
     const handleStopSpeaking = () => {
-        if (audioSourceRef.current) {
-            audioSourceRef.current.stop();
-            audioSourceRef.current.disconnect();
-            audioSourceRef.current = null;
-        }
+        if (ttsPlaybackRef.current) ttsPlaybackRef.current.stopped = true;
+        ttsPlaybackRef.current = null;
+        ttsQueueRef.current?.stop();
+        ttsQueueRef.current = null;
         setTtsStatus('idle');
+        setSpeakingSegmentIndex(null);
     };
 
-    const handlePlayTranslation = async () => {
-        if (!translation || ttsStatus === 'loading' || isApiKeyMissing) return;
-        if (ttsStatus === 'playing') {
-            handleStopSpeaking();
-            return;
-        }
-
+    // Cached speech is reused for the same text and settings; a failed request is not cached
+    const synthesizeSpeech = (text: string, shouldStop?: () => boolean) =>
+        speechCache.get(getSpeechCacheKey(text, speechOptions), () => withRetry(() => provider.synthesize(text, speechOptions), { shouldStop }));
+
+    /**
+     * Speaks `text` in sentence batches that play back to back, starting as soon as the first batch
+     * is ready, so long translations neither fail as one huge request nor wait for all of it.
+     */
+    const speakText = async (text: string, segmentIndex: number | null) => {
+        handleStopSpeaking();
+        if (!text.trim() || isProviderMissing || !provider.supportsSpeech) return;
+        const playback = { stopped: false };
+        ttsPlaybackRef.current = playback;
         setTtsStatus('loading');
+        setSpeakingSegmentIndex(segmentIndex);
         setError(null);
 
+        if (!outputAudioContextRef.current) {
+            outputAudioContextRef.current = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        }
+        const queue = createSpeechQueue(outputAudioContextRef.current);
+        ttsQueueRef.current = queue;
         try {
-            const ai = new GoogleGenAI({ apiKey });
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-preview-tts',
-                contents: [{ parts: [{ text: translation }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                },
+            await speakInOrder(queue, splitSpeechText(text), (batch) => synthesizeSpeech(batch, () => playback.stopped), {
+                shouldStop: () => playback.stopped,
+                onFirstScheduled: () => setTtsStatus('playing'),
             });
-            
-            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (!base64Audio) {
-                throw new Error("No audio data received from API.");
-            }
-
-            if (!outputAudioContextRef.current) {
-                outputAudioContextRef.current = new ((window as any).AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            }
-            const audioCtx = outputAudioContextRef.current;
-            
-            const decodedBytes = decode(base64Audio);
-            const audioBuffer = await decodeAudioData(decodedBytes, audioCtx, 24000, 1);
-            
-            if (audioSourceRef.current) {
-                audioSourceRef.current.stop();
+            await queue.whenIdle();
+        } catch (err: any) {
+            if (!playback.stopped) {
+                console.error("TTS error:", err);
+                const message = err.message || 'An unknown error occurred.';
+                setError(`Failed to generate audio for translation: ${message}`);
             }
+        } finally {
+            if (ttsPlaybackRef.current === playback) handleStopSpeaking();
+        }
+    };
 
-            const source = audioCtx.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioCtx.destination);
-            source.onended = () => {
-                setTtsStatus('idle');
-                audioSourceRef.current = null;
-            };
-            source.start();
-            audioSourceRef.current = source;
-            setTtsStatus('playing');
+    const isSpeakingTranslation = ttsStatus !== 'idle' && speakingSegmentIndex === null;
 
-        } catch (err: any) {
-            console.error("TTS error:", err);
-            const message = err.message || 'An unknown error occurred.';
-            setError(`Failed to generate audio for translation: ${message}`);
-            setTtsStatus('idle');
+    const handlePlayTranslation = () => {
+        if (isSpeakingTranslation) {
+            handleStopSpeaking();
+            return;
         }
+        speakText(translation, null);
     };
-    
-    const handleDownloadSrt = () => {
-        if (translatedSegments.length === 0) return;
-    
-        let srtContent = '';
-        
-        for (let i = 0; i < translatedSegments.length; i++) {
-            const segment = translatedSegments[i];
-            
-            const startTime = formatSrtTime(segment.startTime);
-            const endTime = formatSrtTime(segment.endTime);
-    
-            srtContent += `${i + 1}\n`;
-            srtContent += `${startTime} --> ${endTime}\n`;
-            srtContent += `${segment.text}\n\n`;
+
+    const handlePlaySegment = (index: number) => {
+        if (ttsStatus !== 'idle' && speakingSegmentIndex === index) {
+            handleStopSpeaking();
+            return;
         }
+        speakText(translatedSegments[index]?.text ?? '', index);
+    };
     
-        const blob = new Blob([srtContent], { type: 'application/x-subrip;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'translation.srt';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    const speakerLabels = getSpeakerLabels(segments);
+    const hasWordTimings = segments.some(s => s.words && s.words.length > 0);
+    // Names speakers and, when enabled, reflows the segments to the readability rules
+    const prepareForExport = (source: TranscriptionSegment[]): TranscriptionSegment[] => {
+        const named = applySpeakerNames(source, speakerNames, includeSpeakersInExport);
+        return reflowSubtitles ? reflowSegments(named, subtitleRules) : named;
     };
+    // Segments as written to subtitle files
+    const exportSource = exportTrack === 'translation' ? translatedSegments : segments;
+    const exportSegments: TranscriptionSegment[] = useMemo(
+        () => prepareForExport(exportSource),
+        [exportSource, speakerNames, includeSpeakersInExport, reflowSubtitles, subtitleRules]
+    );
+    const readabilityViolations = useMemo(() => findReadabilityViolations(exportSegments, subtitleRules), [exportSegments, subtitleRules]);
+    // Word timings only exist for the source transcript; translations never carry them
+    const exportWordTimings = exportTrack === 'transcription' && includeWordTimingsInExport;
 
-    // --- SRT Translator Logic ---
-    const parseSrt = (srtContent: string): SrtSegment[] => {
-        const segments: SrtSegment[] = [];
-        // Normalize line endings and split into blocks, filtering out empty blocks
-        const blocks = srtContent.trim().replace(/\r\n/g, '\n').split(/\n\n+/).filter(b => b.trim());
+    const handleDownloadSrt = () => {
+        if (exportSegments.length === 0) return;
+        const blob = new Blob([segmentsToSrt(exportSegments)], { type: SUBTITLE_MIME_TYPES.srt });
+        downloadBlob(blob, `${exportTrack}.srt`);
+    };
 
-        for (const block of blocks) {
-            const lines = block.split('\n');
-            let index: number;
-            let timing: string;
-            let text: string;
+    const handleDownloadVtt = () => {
+        if (exportSegments.length === 0) return;
+        const notes = [
+            `Generated by Audio Scribe & Translate\n${exportTrack === 'translation' && translationLanguage ? `Language: ${getLanguageName(translationLanguage)}\n` : ''}Model: ${activeModelName}`,
+        ];
+        const blob = new Blob([segmentsToVtt(exportSegments, { notes, cueSettings: vttCueSettings, wordTimings: exportWordTimings })], { type: SUBTITLE_MIME_TYPES.vtt });
+        downloadBlob(blob, `${exportTrack}.vtt`);
+    };
 
-            // A valid block must have at least 2 lines (timing and text)
-            if (lines.length < 2) continue;
+    const handleDownloadAss = () => {
+        if (exportSegments.length === 0) return;
+        const title = exportTrack === 'translation' ? 'Translation' : 'Transcription';
+        const blob = new Blob([segmentsToAss(exportSegments, assStyle, title, { wordTimings: exportWordTimings })], { type: SUBTITLE_MIME_TYPES.ass });
+        downloadBlob(blob, `${exportTrack}.ass`);
+    };
 
-            let lineIndex = 0;
-            
-            // Check if the first line is a number (the index)
-            if (/^\d+$/.test(lines[lineIndex].trim())) {
-                index = parseInt(lines[lineIndex].trim(), 10);
-                lineIndex++;
-            } else {
-                // If no index, generate one
-                index = segments.length + 1;
+    // Renders the exported subtitles onto the uploaded video; runs in real time and can be cancelled
+    const handleBurnInSubtitles = async () => {
+        if (!mediaFile || exportSegments.length === 0) return;
+        const controller = new AbortController();
+        burnInAbortRef.current = controller;
+        setBurnInProgress(0);
+        setError(null);
+        try {
+            const blob = await burnInSubtitles(mediaFile, exportSegments, assStyle, {
+                onProgress: (fraction) => setBurnInProgress(Math.round(fraction * 100)),
+                signal: controller.signal,
+            });
+            downloadBlob(blob, `${exportTrack}_burned_in.webm`);
+        } catch (err: any) {
+            if (err.name !== 'AbortError') {
+                console.error("Error burning in subtitles:", err);
+                setError(`Failed to burn subtitles into the video: ${err.message || 'An unknown error occurred.'}`);
             }
+        } finally {
+            burnInAbortRef.current = null;
+            setBurnInProgress(null);
+        }
+    };
 
-            // The next line should be the timing
-            if (lines.length > lineIndex && lines[lineIndex].includes('-->')) {
-                // Normalize millisecond separator from . to ,
-                timing = lines[lineIndex].trim().replace('.', ',');
-                lineIndex++;
-            } else {
-                // If no timing line is found where expected, this is not a valid block
-                continue; 
-            }
+    // A live recording's audio is a WAV with no transcription job; uploaded files always have one
+    const isRecordedSession = !!mediaFile && !transcriptionJob;
+    const recordingBaseName = (activeProject?.name || 'recording').replace(/[\\/:*?"<>|]+/g, '_');
 
-            // The rest of the lines are the text
-            text = lines.slice(lineIndex).join('\n').trim();
+    const handleDownloadRecording = (format: 'wav' | 'opus') => {
+        if (format === 'wav' && mediaFile) {
+            downloadBlob(mediaFile, `${recordingBaseName}.wav`);
+        } else if (format === 'opus' && compressedRecording) {
+            downloadBlob(compressedRecording, `${recordingBaseName}.${compressedRecording.type.includes('ogg') ? 'ogg' : 'webm'}`);
+        }
+    };
+
+    // Runs the recording through the file pipeline, as a new project, for sentence-level timestamps
+    const handleRetranscribeRecording = () => {
+        if (!mediaFile || isProviderMissing) return;
+        processAndTranscribeFile(mediaFile);
+    };
+
+    // Every translation of the project as <name>_<lang>.srt in one archive
+    const handleDownloadAllTranslations = () => {
+        const codes = Object.keys(allTranslations).filter(code => allTranslations[code].length > 0);
+        if (codes.length === 0) return;
+        const baseName = (activeProject?.name || 'translation').replace(/[\\/:*?"<>|]+/g, '_');
+        const files = codes.map(code => ({
+            name: `${baseName}_${code}.srt`,
+            data: segmentsToSrt(prepareForExport(allTranslations[code])),
+        }));
+        downloadBlob(createZip(files), `${baseName}_translations.zip`);
+    };
 
-            if (text) {
-                 segments.push({ index, timing, text });
+    /**
+     * Synthesizes every translated segment on its own and exports them as one WAV voice-over track,
+     * each clip starting with its segment. Segments whose speech does not fit are listed afterwards.
+     */
+    const handleExportDubbing = async () => {
+        if (translatedSegments.length === 0 || isProviderMissing || !provider.supportsSpeech) return;
+        const controller = new AbortController();
+        dubbingAbortRef.current = controller;
+        setDubbingProgress(0);
+        setDubbingOverruns([]);
+        setError(null);
+        try {
+            const spoken = translatedSegments
+                .map((segment, index) => ({ segment, index }))
+                .filter(({ segment }) => segment.text.trim());
+            // Only used to create buffers for the decoded speech
+            const decodeContext = new OfflineAudioContext(1, 1, DUBBING_SAMPLE_RATE);
+            let synthesized = 0;
+            const results = await runConcurrently(spoken, concurrency, async ({ segment, index }): Promise<DubbingClip> => {
+                const speech = await synthesizeSpeech(segment.text, () => controller.signal.aborted);
+                synthesized++;
+                setDubbingProgress(Math.round((synthesized / spoken.length) * 90));
+                return {
+                    index,
+                    startTime: segment.startTime,
+                    endTime: segment.endTime,
+                    audio: await decodeAudioData(speech.data, decodeContext, speech.sampleRate, speech.numChannels),
+                };
+            }, () => controller.signal.aborted);
+            if (controller.signal.aborted) return;
+            const failure = results.find((result): result is PromiseRejectedResult => result?.status === 'rejected');
+            if (failure) throw failure.reason;
+            const clips = results.flatMap(result => result?.status === 'fulfilled' ? [result.value] : []);
+
+            let original: AudioBuffer | undefined;
+            if (dubOverOriginal && mediaFile) {
+                try {
+                    // Only a mono copy at the track's 24 kHz is kept, not the full-rate decode with every channel
+                    original = await downmixAudioBuffer(await decodeAudioFile(await mediaFile.arrayBuffer()), DUBBING_SAMPLE_RATE);
+                } catch {
+                    throw new Error('The original audio could not be decoded for mixing');
+                }
             }
+            const track = await mixDubbingTrack(clips, { fitToSegments: fitDubbingToSegments, original });
+            if (controller.signal.aborted) return;
+            setDubbingOverruns(track.overruns);
+            const baseName = (activeProject?.name || 'translation').replace(/[\\/:*?"<>|]+/g, '_');
+            downloadBlob(audioBufferToWav(track.buffer), `${baseName}_${translationLanguage || 'translation'}_voice-over.wav`);
+        } catch (err: any) {
+            console.error("Error exporting the voice-over:", err);
+            setError(`Failed to export the voice-over track: ${err.message || 'An unknown error occurred.'}`);
+        } finally {
+            if (dubbingAbortRef.current === controller) dubbingAbortRef.current = null;
+            setDubbingProgress(null);
         }
-        return segments;
     };
 
-    const reconstructSrt = (segments: SrtSegment[], translatedTexts: string[]): string => {
-        return segments.map((segment, i) => {
-            const translatedText = translatedTexts[i] || segment.text; // Fallback to original
-            return `${segment.index}\n${segment.timing}\n${translatedText}\n\n`;
-        }).join('');
-    };
-    
+    // --- SRT Translator Logic ---
     const resetSrtState = () => {
         setSrtFileName(null);
+        setSrtDocument(null);
         setSrtSegments([]);
-        setTranslatedSrtContent(null);
+        setTranslatedSrtTexts(null);
         setSrtStatus('idle');
         setSrtError(null);
         setSrtProgress(0);
@@ -820,13 +1522,14 @@ ${JSON.stringify(segments)}
     };
 
     const handleSrtFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        if (isApiKeyMissing) return;
+        if (isProviderMissing) return;
         const file = event.target.files?.[0];
         if (file) {
             resetSrtState();
 
-            if (!file.name.toLowerCase().endsWith('.srt')) {
-                setSrtError('Invalid file type. Please upload a .srt file.');
+            const format = getSubtitleFormat(file.name);
+            if (!format) {
+                setSrtError('Invalid file type. Please upload a .srt, .vtt or .ass file.');
                 setSrtStatus('error');
                 if (event.target) event.target.value = '';
                 return;
@@ -843,17 +1546,25 @@ ${JSON.stringify(segments)}
             const reader = new FileReader();
             reader.onload = (e) => {
                 const content = e.target?.result as string;
-                const parsed = parseSrt(content);
-                if (parsed.length === 0) {
-                    setSrtError('Failed to parse SRT file. Please check the file format.');
+                let parsed: SubtitleDocument;
+                try {
+                    parsed = parseSubtitleFile(content, format);
+                } catch (err: any) {
+                    setSrtError(`Failed to parse subtitle file: ${err.message}`);
+                    setSrtStatus('error');
+                    return;
+                }
+                if (parsed.cues.length === 0) {
+                    setSrtError('Failed to parse subtitle file. Please check the file format.');
                     setSrtStatus('error');
                     return;
                 }
-                setSrtSegments(parsed);
+                setSrtDocument(parsed);
+                setSrtSegments(parsed.cues);
                 setSrtStatus('idle');
             };
             reader.onerror = () => {
-                 setSrtError('Error reading the SRT file.');
+                 setSrtError('Error reading the subtitle file.');
                  setSrtStatus('error');
             };
             reader.readAsText(file);
@@ -864,53 +1575,60 @@ ${JSON.stringify(segments)}
     };
     
     const handleSrtTranslate = async () => {
-        if (srtSegments.length === 0 || isApiKeyMissing) return;
+        if (srtSegments.length === 0 || isProviderMissing) return;
         setSrtStatus('processing');
         setSrtError(null);
-        setTranslatedSrtContent(null);
+        setTranslatedSrtTexts(null);
         setSrtProgress(0);
 
         try {
-            const ai = new GoogleGenAI({ apiKey });
             const selectedLang = LANGUAGES.find(l => l.code === targetLanguage);
-            const allTextsToTranslate = srtSegments.map(s => s.text);
-            const allTranslatedTexts: string[] = [];
-
-            const numChunks = Math.ceil(allTextsToTranslate.length / SRT_TRANSLATE_CHUNK_SIZE);
-
-            for (let i = 0; i < numChunks; i++) {
-                const chunkStart = i * SRT_TRANSLATE_CHUNK_SIZE;
-                const chunkEnd = chunkStart + SRT_TRANSLATE_CHUNK_SIZE;
-                const chunk = allTextsToTranslate.slice(chunkStart, chunkEnd);
-                
-                setSrtProgressLabel(`Translating chunk ${i + 1} of ${numChunks}...`);
-                setSrtProgress((i / numChunks) * 100);
-
-                const prompt = `Translate each string in the following JSON array to ${selectedLang?.name || 'the selected language'}.
-Return a valid JSON array containing only the translated strings, in the exact same order as the input. The number of strings in your output array must be exactly ${chunk.length}.
-
-Input:
-${JSON.stringify(chunk)}
-`;
-                const schema = {
-                    type: Type.ARRAY,
-                    items: { type: Type.STRING },
-                };
-
-                const response = await ai.models.generateContent({
-                    model: transcriptionModel,
-                    contents: prompt,
-                    config: {
-                        responseMimeType: 'application/json',
-                        responseSchema: schema,
-                    },
+            // Only the dialogue text of ASS cues is translated; override tags are swapped for placeholders
+            const assParts = srtDocument?.format === 'ass' ? srtSegments.map(s => extractAssText(s.text)) : null;
+            const allTextsToTranslate = assParts ? assParts.map(p => p.plain) : srtSegments.map(s => s.text);
+            // Imported subtitle files belong to no project, so only the global glossary applies
+            const glossary = getGlossaryForLanguage(globalGlossary, [], targetLanguage);
+
+            // Batches end between sentences and carry the cues around them, so dialogue reads on across batches
+            const batches = planSubtitleBatches(allTextsToTranslate, SRT_TRANSLATE_CHUNK_SIZE);
+            const numChunks = batches.length;
+            let completed = 0;
+            setSrtProgressLabel(`Translating ${numChunks} chunk(s)...`);
+
+            // One failed chunk fails the whole file, so stop starting new requests after it
+            let failed = false;
+            const results = await runConcurrently(batches, concurrency, async ({ start, end, previousTexts, nextTexts }, i) => {
+                const chunk = allTextsToTranslate.slice(start, end);
+                const translatedChunk = await withRetry(
+                    () => provider.translateTexts(chunk, selectedLang?.name || 'the selected language', {
+                        glossary,
+                        previousTexts,
+                        nextTexts,
+                        ...(srtBrief.trim() ? { brief: srtBrief } : {}),
+                    }),
+                    {
+                        shouldStop: () => failed,
+                        onRetry: (attempt, delayMs) => setSrtProgressLabel(`Chunk ${i + 1} limited by the server, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})...`),
+                    }
+                ).catch((err) => {
+                    failed = true;
+                    throw err;
                 });
-                
-                const translatedChunk = JSON.parse(response.text);
                 if (translatedChunk.length !== chunk.length) {
+                    failed = true;
                     throw new Error(`Translation API returned a mismatching number of items for chunk ${i + 1}. Expected ${chunk.length}, got ${translatedChunk.length}.`);
                 }
-                allTranslatedTexts.push(...translatedChunk);
+                completed++;
+                setSrtProgressLabel(`Translated ${completed} of ${numChunks} chunk(s)...`);
+                setSrtProgress((completed / numChunks) * 100);
+                return translatedChunk;
+            }, () => failed);
+
+            // Results are in chunk order regardless of which request finished first
+            const allTranslatedTexts: string[] = [];
+            for (const result of results) {
+                if (result?.status === 'rejected') throw result.reason;
+                if (result?.status === 'fulfilled') allTranslatedTexts.push(...result.value);
             }
             
             setSrtProgress(100);
@@ -920,8 +1638,10 @@ ${JSON.stringify(chunk)}
                 throw new Error("Final translation returned a different number of segments than the input.");
             }
             
-            const newSrtContent = reconstructSrt(srtSegments, allTranslatedTexts);
-            setTranslatedSrtContent(newSrtContent);
+            setTranslatedSrtTexts(assParts
+                ? allTranslatedTexts.map((text, i) => restoreAssText(text, assParts[i].tags, srtSegments[i].text))
+                : allTranslatedTexts);
+            setSrtTranslationLanguage(targetLanguage);
             setSrtStatus('finished');
 
         } catch (err: any) {
@@ -934,31 +1654,36 @@ ${JSON.stringify(chunk)}
         }
     };
 
-    const handleDownloadTranslatedSrt = () => {
-        if (!translatedSrtContent || !srtFileName) return;
-        const blob = new Blob([translatedSrtContent], { type: 'application/x-subrip;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
+    const handleDownloadTranslatedSrt = (format: SubtitleFormat) => {
+        if (!translatedSrtTexts || !srtDocument || !srtFileName || !srtTranslationLanguage) return;
         const nameParts = srtFileName.split('.');
-        const extension = nameParts.pop();
+        nameParts.pop();
         const baseName = nameParts.join('.');
-        a.download = `${baseName}_${targetLanguage}.${extension}`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        const content = buildSubtitleFile(srtDocument, format, translatedSrtTexts, { assStyle, title: baseName });
+        downloadBlob(new Blob([content], { type: SUBTITLE_MIME_TYPES[format] }), `${baseName}_${srtTranslationLanguage}.${format}`);
     };
 
 
     const isProcessing = status === AppStatus.PROCESSING || status === AppStatus.TRANSLATING;
     const canTranslate = status === AppStatus.FINISHED && segments.length > 0;
-    const canDownload = status === AppStatus.FINISHED && translatedSegments.length > 0;
+    const canDownload = status === AppStatus.FINISHED && exportSegments.length > 0;
+    const staleCount = translatedSegments.filter(s => s.stale).length;
+    // Post-translation glossary check against the rules for the language each translation is in
+    const glossaryViolations = useMemo(() => translationLanguage
+        ? findGlossaryViolations(segments.map(s => s.text), translatedSegments.map(s => s.text), getGlossaryForLanguage(globalGlossary, projectGlossary, translationLanguage))
+        : [], [segments, translatedSegments, translationLanguage, globalGlossary, projectGlossary]);
+    const srtGlossaryViolations = useMemo(() => translatedSrtTexts && srtTranslationLanguage
+        ? findGlossaryViolations(
+            srtSegments.map(s => srtDocument?.format === 'ass' ? assToPlainText(s.text) : s.text),
+            srtDocument?.format === 'ass' ? translatedSrtTexts.map(assToPlainText) : translatedSrtTexts,
+            getGlossaryForLanguage(globalGlossary, [], srtTranslationLanguage))
+        : [], [srtSegments, srtDocument, translatedSrtTexts, srtTranslationLanguage, globalGlossary]);
+    const isEditingSegments = transcriptView === 'segments' && status === AppStatus.FINISHED && segments.length > 0;
     const tabClass = (tabName: string) => `px-4 py-3 text-sm font-medium rounded-t-lg transition-colors focus:outline-none ${activeTab === tabName ? 'bg-gray-800 text-white' : 'bg-gray-700/50 text-gray-400 hover:bg-gray-800/60'}`;
 
     return (
-        <div className="min-h-screen bg-gray-900 text-gray-200 flex flex-col items-center justify-center p-4 font-sans">
-            <div className="w-full max-w-3xl mx-auto space-y-8">
+        <div className="min-h-screen bg-gray-900 text-gray-200 flex flex-col lg:flex-row items-center lg:items-start justify-center gap-8 p-4 font-sans">
+            <div className="w-full max-w-3xl mx-auto lg:mx-0 space-y-8">
                 <header className="text-center">
                     <h1 className="text-4xl md:text-5xl font-bold text-white tracking-tight">Audio Scribe & Translate</h1>
                     <p className="mt-4 text-lg text-gray-400">Record, upload, transcribe, translate, and export with the power of Gemini.</p>
@@ -967,7 +1692,11 @@ ${JSON.stringify(chunk)}
                 <main className="bg-gray-800/50 backdrop-blur-sm border border-gray-700/50 rounded-2xl shadow-2xl">
                      <div className="p-6 md:p-8 border-b border-gray-700">
                         <h3 className="text-lg font-semibold text-center text-white mb-4">API Key Configuration</h3>
-                        {isApiKeyMissing ? (
+                        {isApiKeyMissing && providerId === 'local' ? (
+                            <div className="bg-gray-900/50 border border-gray-700 text-gray-300 px-4 py-3 rounded-lg text-center mb-4">
+                                <p>A Google AI API key is only needed for the Gemini provider. The local server provider is currently selected.</p>
+                            </div>
+                        ) : isApiKeyMissing ? (
                             <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-300 px-4 py-3 rounded-lg text-center mb-4">
                                 <p><strong>Action Required:</strong> Please enter your Google AI API key to use the application. Get your key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="underline font-bold">Google AI Studio</a>.</p>
                             </div>
@@ -1012,20 +1741,135 @@ ${JSON.stringify(chunk)}
                             <div className="space-y-8">
                                 <div className="border-b border-gray-700 pb-6 space-y-4">
                                     <h3 className="text-lg font-semibold text-center text-white">Settings</h3>
-                                    <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
-                                        <label htmlFor="model-select" className="font-medium text-gray-300 shrink-0">AI Model:</label>
+                                    <ProviderSettings
+                                        idPrefix=""
+                                        providerId={providerId}
+                                        onProviderChange={setProviderId}
+                                        transcriptionModel={transcriptionModel}
+                                        onTranscriptionModelChange={setTranscriptionModel}
+                                        localServerConfig={localServerConfig}
+                                        onLocalServerConfigChange={updateLocalServerConfig}
+                                        concurrency={concurrency}
+                                        onConcurrencyChange={setConcurrency}
+                                        disabled={isProcessing}
+                                    />
+                                    <label className="flex items-center justify-center gap-2 text-sm text-gray-300">
+                                        Spoken language in uploaded files:
                                         <select
-                                            id="model-select"
-                                            value={transcriptionModel}
-                                            onChange={(e) => setTranscriptionModel(e.target.value)}
-                                            className="w-full sm:w-auto bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                            value={sourceLanguage}
+                                            onChange={(e) => setSourceLanguage(e.target.value)}
                                             disabled={isProcessing}
+                                            className="bg-gray-700 border-gray-600 text-white rounded-md px-2 py-1"
                                         >
-                                            {TRANSCRIPTION_MODELS.map((model) => (
-                                                <option key={model} value={model}>{model}</option>
+                                            <option value="auto">Detect automatically</option>
+                                            {LANGUAGES.map((lang) => (
+                                                <option key={lang.code} value={lang.code}>{lang.name}</option>
                                             ))}
                                         </select>
+                                    </label>
+                                    <label className="flex items-center justify-center gap-2 text-sm text-gray-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={diarizeSpeakers && provider.supportsDiarization}
+                                            onChange={(e) => setDiarizeSpeakers(e.target.checked)}
+                                            disabled={isProcessing || !provider.supportsDiarization}
+                                        />
+                                        Identify speakers in uploaded files
+                                        {!provider.supportsDiarization && <span className="text-gray-500">(not supported by this provider)</span>}
+                                    </label>
+                                    <label className="flex items-center justify-center gap-2 text-sm text-gray-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={wordTimestamps}
+                                            onChange={(e) => setWordTimestamps(e.target.checked)}
+                                            disabled={isProcessing}
+                                        />
+                                        Word-level timestamps in uploaded files (karaoke highlighting)
+                                    </label>
+                                    <label className="flex items-center justify-center gap-2 text-sm text-gray-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={splitAtPauses}
+                                            onChange={(e) => setSplitAtPauses(e.target.checked)}
+                                            disabled={isProcessing}
+                                        />
+                                        Split long files at pauses, skipping silences longer than
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={skipSilenceSeconds}
+                                            onChange={(e) => setSkipSilenceSeconds(Math.max(0, Number(e.target.value) || 0))}
+                                            disabled={isProcessing || !splitAtPauses}
+                                            className="w-16 bg-gray-700 border-gray-600 text-white rounded-md px-2 py-1"
+                                            title="0 keeps all silence"
+                                        />
+                                        seconds
+                                    </label>
+                                    <label className="flex items-center justify-center gap-2 text-sm text-gray-300">
+                                        Chunk overlap for long files:
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={MAX_CHUNK_OVERLAP_SECONDS}
+                                            value={chunkOverlapSeconds}
+                                            onChange={(e) => setChunkOverlapSeconds(Math.min(MAX_CHUNK_OVERLAP_SECONDS, Math.max(0, Number(e.target.value) || 0)))}
+                                            disabled={isProcessing || splitAtPauses}
+                                            title={splitAtPauses ? 'Only used when long files are not split at pauses' : undefined}
+                                            className="w-16 bg-gray-700 border-gray-600 text-white rounded-md px-2 py-1"
+                                        />
+                                        seconds
+                                    </label>
+                                    <MicrophoneSettings
+                                        deviceId={microphoneId}
+                                        onDeviceChange={setMicrophoneId}
+                                        noiseSuppression={noiseSuppression}
+                                        onNoiseSuppressionChange={setNoiseSuppression}
+                                        echoCancellation={echoCancellation}
+                                        onEchoCancellationChange={setEchoCancellation}
+                                        disabled={isProcessing || status === AppStatus.RECORDING}
+                                    />
+                                    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm text-gray-300">
+                                        <label className="flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={liveTranslation}
+                                                onChange={(e) => setLiveTranslation(e.target.checked)}
+                                                disabled={isProcessing || status === AppStatus.RECORDING}
+                                            />
+                                            Translate recordings live into
+                                            <select
+                                                value={liveTranslationLanguage}
+                                                onChange={(e) => setLiveTranslationLanguage(e.target.value)}
+                                                disabled={isProcessing || status === AppStatus.RECORDING || !liveTranslation}
+                                                className="bg-gray-700 border-gray-600 text-white rounded-md px-2 py-1"
+                                            >
+                                                {LANGUAGES.map((lang) => (
+                                                    <option key={lang.code} value={lang.code}>{lang.name}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={speakLiveTranslation && provider.supportsSpeech}
+                                                onChange={(e) => setSpeakLiveTranslation(e.target.checked)}
+                                                disabled={isProcessing || status === AppStatus.RECORDING || !liveTranslation || !provider.supportsSpeech}
+                                            />
+                                            Speak translations aloud
+                                        </label>
                                     </div>
+                                    {provider.supportsSpeech && (
+                                        <SpeechSettings
+                                            voice={ttsVoice}
+                                            onVoiceChange={setTtsVoice}
+                                            showVoice={providerId === 'gemini'}
+                                            rate={ttsRate}
+                                            onRateChange={setTtsRate}
+                                            style={ttsStyle}
+                                            onStyleChange={setTtsStyle}
+                                            disabled={status === AppStatus.RECORDING}
+                                        />
+                                    )}
                                 </div>
 
                                 <div className="flex flex-col md:flex-row items-center justify-center gap-4">
@@ -1033,7 +1877,8 @@ ${JSON.stringify(chunk)}
                                         <>
                                             <button
                                                 onClick={handleStartRecording}
-                                                disabled={isProcessing || isApiKeyMissing}
+                                                disabled={isProcessing || isProviderMissing || !provider.supportsLive}
+                                                title={provider.supportsLive ? undefined : 'Live recording is only available with the Gemini provider'}
                                                 className="w-full md:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white font-semibold rounded-full shadow-lg hover:bg-blue-700 focus:outline-none focus:ring-4 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-300 ease-in-out transform hover:scale-105 disabled:bg-gray-500 disabled:cursor-not-allowed disabled:scale-100"
                                             >
                                                 <MicIcon className="w-6 h-6" />
@@ -1044,30 +1889,46 @@ ${JSON.stringify(chunk)}
 
                                             <button
                                                 onClick={() => fileInputRef.current?.click()}
-                                                disabled={isProcessing || isApiKeyMissing}
+                                                disabled={isProcessing || isProviderMissing}
                                                 className="w-full md:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 text-white font-semibold rounded-full shadow-lg hover:bg-indigo-700 focus:outline-none focus:ring-4 focus:ring-indigo-500 focus:ring-opacity-50 transition-all duration-300 ease-in-out transform hover:scale-105 disabled:bg-gray-500 disabled:cursor-not-allowed disabled:scale-100"
                                             >
                                                 <UploadIcon className="w-6 h-6" />
-                                                Upload Audio File
+                                                Upload Audio or Video
                                             </button>
                                             <input
                                                 type="file"
                                                 ref={fileInputRef}
                                                 onChange={handleFileChange}
-                                                accept="audio/*"
+                                                accept="audio/*,video/*,.mkv"
                                                 className="hidden"
                                             />
                                         </>
                                     ) : (
-                                        <button
-                                            onClick={handleStopRecording}
-                                            className="w-full md:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-red-600 text-white font-semibold rounded-full shadow-lg hover:bg-red-700 focus:outline-none focus:ring-4 focus:ring-red-500 focus:ring-opacity-50 transition-all duration-300 ease-in-out transform hover:scale-105 animate-pulse"
-                                        >
-                                            <StopIcon className="w-6 h-6" />
-                                            Stop Recording
-                                        </button>
+                                        <>
+                                            <button
+                                                onClick={handleTogglePauseRecording}
+                                                className="w-full md:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-gray-600 text-white font-semibold rounded-full shadow-lg hover:bg-gray-700 focus:outline-none focus:ring-4 focus:ring-gray-500 focus:ring-opacity-50 transition-all duration-300 ease-in-out transform hover:scale-105"
+                                            >
+                                                {isRecordingPaused ? <MicIcon className="w-6 h-6" /> : <PauseIcon className="w-6 h-6" />}
+                                                {isRecordingPaused ? 'Resume' : 'Pause'}
+                                            </button>
+                                            <button
+                                                onClick={handleStopRecording}
+                                                className={`w-full md:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-red-600 text-white font-semibold rounded-full shadow-lg hover:bg-red-700 focus:outline-none focus:ring-4 focus:ring-red-500 focus:ring-opacity-50 transition-all duration-300 ease-in-out transform hover:scale-105 ${isRecordingPaused ? '' : 'animate-pulse'}`}
+                                            >
+                                                <StopIcon className="w-6 h-6" />
+                                                Stop Recording
+                                            </button>
+                                        </>
                                     )}
                                 </div>
+
+                                {status === AppStatus.RECORDING && (
+                                    <div className="space-y-2">
+                                        <InputLevelMeter levelRef={inputLevelRef} paused={isRecordingPaused} />
+                                        <LiveConnectionStatus state={liveConnectionState} />
+                                    </div>
+                                )}
                                 
                                 {status === AppStatus.PROCESSING && (
                                     <div className="w-full px-2 md:px-0 space-y-3">
@@ -1083,6 +1944,15 @@ ${JSON.stringify(chunk)}
                                     </div>
                                 )}
                                 
+                                {transcriptionJob && getIncompleteChunkIndices(transcriptionJob).length > 0 && status !== AppStatus.PROCESSING && status !== AppStatus.RECORDING && (
+                                    <ChunkStatus
+                                        job={transcriptionJob}
+                                        onResume={() => handleResumeTranscription()}
+                                        onRetryChunk={(index) => handleResumeTranscription([index])}
+                                        disabled={isProcessing || isProviderMissing || !mediaFile}
+                                    />
+                                )}
+
                                 {status === AppStatus.TRANSLATING && (
                                     <div className="w-full px-2 md:px-0">
                                         <ProgressBar progress={progress} label={progressLabel} />
@@ -1095,33 +1965,180 @@ ${JSON.stringify(chunk)}
                                     </div>
                                 )}
                                 
-                                {(transcriptionForDisplay || translation) && (
+                                {mediaUrl && mediaFile && status !== AppStatus.PROCESSING && (
+                                    <div className="space-y-2">
+                                        <MediaPlayer
+                                            src={mediaUrl}
+                                            kind={isVideo ? 'video' : 'audio'}
+                                            mediaRef={mediaElementRef}
+                                            caption={liveCaption}
+                                            secondaryCaption={previewTrack === 'both' ? transcriptCaption : null}
+                                            onTimeUpdate={setPlaybackTime}
+                                        />
+                                        {translatedSegments.length > 0 && (
+                                            <div className="flex flex-wrap items-center gap-3 text-sm">
+                                                <span className="text-gray-400">Captions:</span>
+                                                <div className="inline-flex rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Caption track">
+                                                    {(['translation', 'transcription', 'both'] as const).map((track) => (
+                                                        <button
+                                                            key={track}
+                                                            onClick={() => setCaptionTrack(track)}
+                                                            className={`px-3 py-1.5 font-medium transition ${captionTrack === track ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                                        >
+                                                            {track === 'translation' ? 'Translation' : track === 'transcription' ? 'Transcription' : 'Both'}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {status === AppStatus.FINISHED && segments.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                                        <div className="inline-flex rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Transcript view">
+                                            {(['text', 'segments'] as const).map((view) => (
+                                                <button
+                                                    key={view}
+                                                    onClick={() => setTranscriptView(view)}
+                                                    className={`px-3 py-1.5 font-medium transition ${transcriptView === view ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                                >
+                                                    {view === 'text' ? 'Text' : 'Edit Segments'}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {isEditingSegments && (
+                                            <>
+                                                <button
+                                                    onClick={transcriptHistory.undo}
+                                                    disabled={!transcriptHistory.canUndo}
+                                                    className="px-3 py-1.5 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                                                >
+                                                    Undo
+                                                </button>
+                                                <button
+                                                    onClick={transcriptHistory.redo}
+                                                    disabled={!transcriptHistory.canRedo}
+                                                    className="px-3 py-1.5 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                                                >
+                                                    Redo
+                                                </button>
+                                                <label className="flex items-center gap-2 text-gray-300">
+                                                    <input type="checkbox" checked={markStaleOnEdit} onChange={(e) => setMarkStaleOnEdit(e.target.checked)} />
+                                                    Mark translation stale on source edits
+                                                </label>
+                                            </>
+                                        )}
+                                        {staleCount > 0 && (
+                                            <button
+                                                onClick={handleRetranslateStale}
+                                                disabled={isProcessing || isProviderMissing}
+                                                className="px-3 py-1.5 bg-yellow-600 text-white font-semibold rounded-md hover:bg-yellow-700 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
+                                            >
+                                                Re-translate stale ({staleCount})
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+
+                                {isEditingSegments && (
+                                    <div className="grid grid-cols-1 gap-6">
+                                        <div className="space-y-2">
+                                            <div className="flex flex-wrap items-center gap-3">
+                                                <h3 className="font-semibold text-lg text-white">Transcription</h3>
+                                                <DetectedLanguages languages={detectedLanguages} />
+                                            </div>
+                                            <SegmentEditor
+                                                segments={segments}
+                                                onEdit={(edit) => handleSegmentEdit('source', edit)}
+                                                activeIndex={activeSegmentIndex}
+                                                onSeek={mediaUrl ? handleSeekToSegment : undefined}
+                                                speakerLabels={speakerLabels}
+                                                speakerNames={speakerNames}
+                                            />
+                                        </div>
+                                        {translatedSegments.length > 0 && (
+                                            <div className="space-y-2">
+                                                <div className="flex flex-wrap items-center gap-3">
+                                                    <h3 className="font-semibold text-lg text-white">Translation</h3>
+                                                    <LanguageSwitcher languages={Object.keys(allTranslations)} active={translationLanguage} onSelect={handleTargetLanguageChange} disabled={isProcessing} />
+                                                </div>
+                                                <SegmentEditor
+                                                    segments={translatedSegments}
+                                                    onEdit={(edit) => handleSegmentEdit('translated', edit)}
+                                                    activeIndex={activeTranslatedIndex}
+                                                    onSeek={mediaUrl ? handleSeekToSegment : undefined}
+                                                    speakerLabels={speakerLabels}
+                                                    speakerNames={speakerNames}
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {!isEditingSegments && (transcriptionForDisplay || translation) && (
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                         <div className="space-y-2">
-                                            <h3 className="font-semibold text-lg text-white">Transcription</h3>
+                                            <div className="flex flex-wrap items-center gap-3">
+                                                <h3 className="font-semibold text-lg text-white">Transcription</h3>
+                                                <DetectedLanguages languages={detectedLanguages} />
+                                            </div>
                                             <div className="bg-gray-900 rounded-lg p-4 h-48 overflow-y-auto text-gray-300 min-h-[12rem]">
-                                                {transcriptionForDisplay || <span className="text-gray-500">Your transcribed text will appear here...</span>}
+                                                <TranscriptText
+                                                    segments={segments}
+                                                    activeIndex={activeSegmentIndex}
+                                                    onSeek={mediaUrl ? handleSeekToSegment : undefined}
+                                                    trailingText={currentSegment.text}
+                                                    placeholder="Your transcribed text will appear here..."
+                                                    speakerNames={speakerNames}
+                                                    playbackTime={mediaUrl ? playbackTime : undefined}
+                                                />
                                             </div>
                                         </div>
                                         <div className="space-y-2">
-                                            <div className="flex items-center justify-between">
-                                                <h3 className="font-semibold text-lg text-white">Translation</h3>
-                                                {translation && (
+                                            <div className="flex items-center justify-between gap-3">
+                                                <div className="flex flex-wrap items-center gap-3">
+                                                    <h3 className="font-semibold text-lg text-white">Translation</h3>
+                                                    <LanguageSwitcher languages={Object.keys(allTranslations)} active={translationLanguage} onSelect={handleTargetLanguageChange} disabled={isProcessing} />
+                                                </div>
+                                                {translation && provider.supportsSpeech && (
                                                     <button
                                                         onClick={handlePlayTranslation}
-                                                        disabled={ttsStatus === 'loading' || isApiKeyMissing}
+                                                        disabled={isProviderMissing}
                                                         className="p-1.5 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                                        aria-label={ttsStatus === 'playing' ? 'Stop translation' : 'Listen to translation'}
-                                                        title={ttsStatus === 'playing' ? 'Stop translation' : 'Listen to translation'}
+                                                        aria-label={isSpeakingTranslation ? 'Stop translation' : 'Listen to translation'}
+                                                        title={isSpeakingTranslation ? 'Stop translation' : 'Listen to translation'}
                                                     >
-                                                        {ttsStatus === 'loading' && <SpinnerIcon className="w-5 h-5" />}
-                                                        {ttsStatus === 'playing' && <StopCircleIcon className="w-5 h-5 text-green-400" />}
-                                                        {ttsStatus === 'idle' && <SpeakerWaveIcon className="w-5 h-5" />}
+                                                        {isSpeakingTranslation && ttsStatus === 'loading' && <SpinnerIcon className="w-5 h-5" />}
+                                                        {isSpeakingTranslation && ttsStatus === 'playing' && <StopCircleIcon className="w-5 h-5 text-green-400" />}
+                                                        {!isSpeakingTranslation && <SpeakerWaveIcon className="w-5 h-5" />}
                                                     </button>
                                                 )}
                                             </div>
                                             <div className="bg-gray-900 rounded-lg p-4 h-48 overflow-y-auto text-gray-300 min-h-[12rem]">
-                                                {translation || <span className="text-gray-500">Your translated text will appear here...</span>}
+                                                <TranscriptText
+                                                    segments={translatedSegments}
+                                                    activeIndex={activeTranslatedIndex}
+                                                    onSeek={mediaUrl ? handleSeekToSegment : undefined}
+                                                    placeholder="Your translated text will appear here..."
+                                                    speakerNames={speakerNames}
+                                                    segmentAction={provider.supportsSpeech && status !== AppStatus.RECORDING ? (index) => {
+                                                        const isSpeaking = ttsStatus !== 'idle' && speakingSegmentIndex === index;
+                                                        return (
+                                                            <button
+                                                                onClick={() => handlePlaySegment(index)}
+                                                                disabled={isProviderMissing}
+                                                                className={`inline-flex align-middle ml-0.5 p-0.5 rounded text-gray-400 hover:text-white focus:opacity-100 transition-opacity ${isSpeaking ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                                                                aria-label={isSpeaking ? `Stop segment ${index + 1}` : `Listen to segment ${index + 1}`}
+                                                                title={isSpeaking ? 'Stop' : 'Listen to this segment'}
+                                                            >
+                                                                {!isSpeaking && <SpeakerWaveIcon className="w-3.5 h-3.5" />}
+                                                                {isSpeaking && ttsStatus === 'loading' && <SpinnerIcon className="w-3.5 h-3.5" />}
+                                                                {isSpeaking && ttsStatus === 'playing' && <StopCircleIcon className="w-3.5 h-3.5 text-green-400" />}
+                                                            </button>
+                                                        );
+                                                    } : undefined}
+                                                />
                                             </div>
                                         </div>
                                     </div>
@@ -1129,30 +2146,90 @@ ${JSON.stringify(chunk)}
 
                                 {(status === AppStatus.FINISHED && segments.length > 0) && (
                                     <div className="border-t border-gray-700 pt-6 space-y-6">
+                                        {speakerLabels.length > 0 && (
+                                            <SpeakerNames
+                                                labels={speakerLabels}
+                                                names={speakerNames}
+                                                onRename={(label, name) => setSpeakerNames(prev => ({ ...prev, [label]: name }))}
+                                            />
+                                        )}
+
                                         <div className="space-y-3">
                                             <h3 className="font-semibold text-lg text-white" id="translate-heading">Translate Transcription</h3>
                                             <div className="flex flex-col sm:flex-row items-center gap-3" role="group" aria-labelledby="translate-heading">
-                                                <select
-                                                    value={targetLanguage}
-                                                    onChange={(e) => setTargetLanguage(e.target.value)}
-                                                    className="w-full sm:w-auto flex-grow bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2.5 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
-                                                >
-                                                    {LANGUAGES.map((lang) => (
-                                                        <option key={lang.code} value={lang.code}>{lang.name}</option>
-                                                    ))}
-                                                </select>
+                                                <div className="flex flex-wrap gap-2 flex-grow" role="group" aria-label="Target languages">
+                                                    {LANGUAGES.map((lang) => {
+                                                        const selected = translationQueue.includes(lang.code);
+                                                        return (
+                                                            <label
+                                                                key={lang.code}
+                                                                className={`flex items-center gap-1.5 px-2 py-1 rounded-md border text-sm cursor-pointer transition ${selected ? 'border-green-500 bg-green-900/30 text-white' : 'border-gray-600 bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                                            >
+                                                                <input
+                                                                    type="checkbox"
+                                                                    checked={selected}
+                                                                    onChange={(e) => toggleTranslationLanguage(lang.code, e.target.checked)}
+                                                                    disabled={isProcessing}
+                                                                />
+                                                                {lang.name}
+                                                                {allTranslations[lang.code] && <span className="text-green-400" title="Already translated">✓</span>}
+                                                                {isTranscriptLanguage(lang.code) && <span className="text-xs text-gray-400">(source)</span>}
+                                                            </label>
+                                                        );
+                                                    })}
+                                                </div>
                                                 <button
                                                     onClick={handleTranslate}
-                                                    disabled={!canTranslate || isProcessing}
+                                                    disabled={!canTranslate || isProcessing || translationQueue.length === 0}
                                                     className="w-full sm:w-auto px-6 py-2.5 bg-green-600 text-white font-semibold rounded-md shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-opacity-50 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
                                                 >
-                                                    Translate
+                                                    {translationQueue.length > 1 ? `Translate into ${translationQueue.length} languages` : 'Translate'}
                                                 </button>
                                             </div>
+                                            {translationQueue.some(isTranscriptLanguage) && (
+                                                <p className="text-sm text-yellow-300">
+                                                    The transcript is already in {transcriptLanguageName}, so that language will be skipped.
+                                                </p>
+                                            )}
+                                            <GlossaryEditor
+                                                title="Project glossary"
+                                                description="Terms for this project. They override global terms with the same source."
+                                                entries={projectGlossary}
+                                                onChange={setProjectGlossary}
+                                                fileName={activeProject ? `${activeProject.name}_glossary` : 'project_glossary'}
+                                                disabled={isProcessing}
+                                            />
+                                            <GlossaryEditor
+                                                title="Global glossary"
+                                                description="Terms applied to every translation, including subtitle files."
+                                                entries={globalGlossary}
+                                                onChange={setGlobalGlossary}
+                                                fileName="glossary"
+                                                disabled={isProcessing}
+                                            />
+                                            <GlossaryReport
+                                                violations={glossaryViolations}
+                                                itemLabel="Segment"
+                                                onSelect={mediaUrl ? (index) => handleSeekToSegment(translatedSegments[index]) : undefined}
+                                            />
                                         </div>
 
                                         <div className="space-y-3">
                                             <h3 className="font-semibold text-lg text-white" id="actions-heading">Final Actions</h3>
+                                            <div className="flex flex-wrap items-center gap-3 text-sm">
+                                                <span className="text-gray-400">Subtitles from:</span>
+                                                <div className="inline-flex rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Subtitle source">
+                                                    {(['translation', 'transcription'] as const).map((track) => (
+                                                        <button
+                                                            key={track}
+                                                            onClick={() => setExportTrack(track)}
+                                                            className={`px-3 py-1.5 font-medium transition ${exportTrack === track ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                                        >
+                                                            {track === 'translation' ? 'Translation' : 'Transcription'}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </div>
                                             <div className="flex flex-col sm:flex-row items-center gap-3" role="group" aria-labelledby="actions-heading">
                                                 <button
                                                     onClick={handleDownloadSrt}
@@ -1161,6 +2238,40 @@ ${JSON.stringify(chunk)}
                                                 >
                                                     Download .SRT
                                                 </button>
+                                                <button
+                                                    onClick={handleDownloadVtt}
+                                                    disabled={!canDownload}
+                                                    className="w-full sm:w-auto flex-grow px-6 py-2.5 bg-purple-600 text-white font-semibold rounded-md shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-opacity-50 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
+                                                >
+                                                    Download .VTT
+                                                </button>
+                                                <button
+                                                    onClick={handleDownloadAss}
+                                                    disabled={!canDownload}
+                                                    className="w-full sm:w-auto flex-grow px-6 py-2.5 bg-purple-600 text-white font-semibold rounded-md shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-opacity-50 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
+                                                >
+                                                    Download .ASS
+                                                </button>
+                                                {isVideo && burnInProgress === null && (
+                                                    <button
+                                                        onClick={handleBurnInSubtitles}
+                                                        disabled={!canDownload}
+                                                        title="Renders the subtitles onto the video with the ASS style below"
+                                                        className="w-full sm:w-auto flex-grow px-6 py-2.5 bg-purple-600 text-white font-semibold rounded-md shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-opacity-50 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
+                                                    >
+                                                        Burn into Video
+                                                    </button>
+                                                )}
+                                                {Object.keys(allTranslations).length > 1 && (
+                                                    <button
+                                                        onClick={handleDownloadAllTranslations}
+                                                        disabled={status !== AppStatus.FINISHED}
+                                                        className="w-full sm:w-auto flex-grow px-6 py-2.5 bg-purple-600 text-white font-semibold rounded-md shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-opacity-50 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
+                                                        title="Every translation as a separate .srt file"
+                                                    >
+                                                        Download All Translations (.zip)
+                                                    </button>
+                                                )}
                                                 <button
                                                     onClick={resetScribeState}
                                                     className="w-full sm:w-auto px-6 py-2.5 bg-gray-600 text-white font-semibold rounded-md shadow-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition"
@@ -1168,6 +2279,121 @@ ${JSON.stringify(chunk)}
                                                     Start Over
                                                 </button>
                                             </div>
+                                            {isRecordedSession && (
+                                                <div className="flex flex-wrap items-center gap-3 text-sm">
+                                                    <span className="text-gray-400">Recording:</span>
+                                                    <button onClick={() => handleDownloadRecording('wav')} className="px-3 py-1.5 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed">
+                                                        Download .WAV
+                                                    </button>
+                                                    {compressedRecording && (
+                                                        <button onClick={() => handleDownloadRecording('opus')} className="px-3 py-1.5 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed">
+                                                            Download Opus / WebM
+                                                        </button>
+                                                    )}
+                                                    <button
+                                                        onClick={handleRetranscribeRecording}
+                                                        disabled={isProcessing || isProviderMissing}
+                                                        title="Transcribes the saved audio like an uploaded file, as a new project"
+                                                        className="px-3 py-1.5 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                                                    >
+                                                        Re-transcribe as File
+                                                    </button>
+                                                </div>
+                                            )}
+                                            {translatedSegments.length > 0 && provider.supportsSpeech && (
+                                                <div className="flex flex-wrap items-center gap-3 text-sm">
+                                                    <span className="text-gray-400">Voice-over:</span>
+                                                    <button
+                                                        onClick={handleExportDubbing}
+                                                        disabled={status !== AppStatus.FINISHED || dubbingProgress !== null || isProviderMissing}
+                                                        title="Speaks every translated segment at its own time and saves the track as a WAV file"
+                                                        className="px-3 py-1.5 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                                                    >
+                                                        Export Dubbed Track (.WAV)
+                                                    </button>
+                                                    <label className="flex items-center gap-2 text-gray-300">
+                                                        <input type="checkbox" checked={fitDubbingToSegments} onChange={(e) => setFitDubbingToSegments(e.target.checked)} disabled={dubbingProgress !== null} />
+                                                        Speed up speech that overruns its segment
+                                                    </label>
+                                                    {mediaFile && (
+                                                        <label className="flex items-center gap-2 text-gray-300">
+                                                            <input type="checkbox" checked={dubOverOriginal} onChange={(e) => setDubOverOriginal(e.target.checked)} disabled={dubbingProgress !== null} />
+                                                            Mix over the original audio, lowered while speaking
+                                                        </label>
+                                                    )}
+                                                </div>
+                                            )}
+                                            {dubbingProgress !== null && (
+                                                <div className="flex items-center gap-3">
+                                                    <div className="flex-grow">
+                                                        <ProgressBar progress={dubbingProgress} label="Synthesizing every segment and mixing the voice-over track..." />
+                                                    </div>
+                                                    <button
+                                                        onClick={() => dubbingAbortRef.current?.abort()}
+                                                        className="px-4 py-1.5 bg-gray-600 text-white font-semibold rounded-md shadow-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                </div>
+                                            )}
+                                            <DubbingReport
+                                                overruns={dubbingOverruns}
+                                                onSelect={mediaUrl ? (index) => handleSeekToSegment(translatedSegments[index]) : undefined}
+                                            />
+                                            {burnInProgress !== null && (
+                                                <div className="flex items-center gap-3">
+                                                    <div className="flex-grow">
+                                                        <ProgressBar progress={burnInProgress} label="Rendering subtitles onto the video in real time. Keep this tab in the foreground..." />
+                                                    </div>
+                                                    <button
+                                                        onClick={() => burnInAbortRef.current?.abort()}
+                                                        className="px-4 py-1.5 bg-gray-600 text-white font-semibold rounded-md shadow-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 transition"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                </div>
+                                            )}
+                                            {speakerLabels.length > 0 && (
+                                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                                    <input type="checkbox" checked={includeSpeakersInExport} onChange={(e) => setIncludeSpeakersInExport(e.target.checked)} />
+                                                    Include speaker names in subtitle files
+                                                </label>
+                                            )}
+                                            {hasWordTimings && exportTrack === 'transcription' && (
+                                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                                    <input type="checkbox" checked={includeWordTimingsInExport} onChange={(e) => setIncludeWordTimingsInExport(e.target.checked)} />
+                                                    Include word timings (VTT timestamp tags, ASS karaoke tags)
+                                                </label>
+                                            )}
+                                            <div className="flex flex-col sm:flex-row items-center gap-3">
+                                                <label htmlFor="vtt-cue-settings" className="text-sm text-gray-400 shrink-0">VTT cue settings:</label>
+                                                <input
+                                                    id="vtt-cue-settings"
+                                                    type="text"
+                                                    placeholder="e.g. line:85% align:center"
+                                                    value={vttCueSettings}
+                                                    onChange={(e) => setVttCueSettings(e.target.value)}
+                                                    className="w-full flex-grow bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                                />
+                                            </div>
+                                            <AssStyleEditor
+                                                style={assStyle}
+                                                onChange={setAssStyle}
+                                                presets={assStylePresets}
+                                                onSavePreset={handleSaveAssPreset}
+                                                onDeletePreset={handleDeleteAssPreset}
+                                            />
+                                            <ReadabilitySettings
+                                                rules={subtitleRules}
+                                                onChange={setSubtitleRules}
+                                                enabled={reflowSubtitles}
+                                                onEnabledChange={setReflowSubtitles}
+                                            />
+                                            <ReadabilityReport
+                                                violations={readabilityViolations}
+                                                segments={exportSegments}
+                                                onSelect={mediaUrl ? handleSeekToSegment : undefined}
+                                            />
                                         </div>
                                     </div>
                                 )}
@@ -1177,42 +2403,40 @@ ${JSON.stringify(chunk)}
                              <div className="space-y-8">
                                 <div className="text-center">
                                     <h3 className="text-xl font-bold text-white">SRT File Translator</h3>
-                                    <p className="text-gray-400 mt-1">Upload a subtitle file to translate its content.</p>
+                                    <p className="text-gray-400 mt-1">Upload a subtitle file (.srt, .vtt or .ass) to translate its content.</p>
                                 </div>
 
                                 <div className="border-b border-gray-700 pb-6 space-y-4">
                                     <h3 className="text-lg font-semibold text-center text-white">Settings</h3>
-                                    <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
-                                        <label htmlFor="srt-model-select" className="font-medium text-gray-300 shrink-0">AI Model:</label>
-                                        <select
-                                            id="srt-model-select"
-                                            value={transcriptionModel}
-                                            onChange={(e) => setTranscriptionModel(e.target.value)}
-                                            className="w-full sm:w-auto bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
-                                            disabled={srtStatus === 'processing'}
-                                        >
-                                            {TRANSCRIPTION_MODELS.map((model) => (
-                                                <option key={model} value={model}>{model}</option>
-                                            ))}
-                                        </select>
-                                    </div>
+                                    <ProviderSettings
+                                        idPrefix="srt-"
+                                        providerId={providerId}
+                                        onProviderChange={setProviderId}
+                                        transcriptionModel={transcriptionModel}
+                                        onTranscriptionModelChange={setTranscriptionModel}
+                                        localServerConfig={localServerConfig}
+                                        onLocalServerConfigChange={updateLocalServerConfig}
+                                        concurrency={concurrency}
+                                        onConcurrencyChange={setConcurrency}
+                                        disabled={srtStatus === 'processing'}
+                                    />
                                 </div>
                                 
                                 <div className="bg-gray-900/50 p-6 rounded-lg border border-gray-700 space-y-4">
                                     <div className="flex flex-col items-center justify-center gap-4">
                                         <button
                                             onClick={() => srtFileInputRef.current?.click()}
-                                            disabled={srtStatus === 'processing' || isApiKeyMissing}
+                                            disabled={srtStatus === 'processing' || isProviderMissing}
                                             className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 text-white font-semibold rounded-full shadow-lg hover:bg-indigo-700 focus:outline-none focus:ring-4 focus:ring-indigo-500 focus:ring-opacity-50 transition-all duration-300 ease-in-out transform hover:scale-105 disabled:bg-gray-500 disabled:cursor-not-allowed"
                                         >
                                             <FileTextIcon className="w-6 h-6" />
-                                            {srtFileName ? 'Upload a Different SRT File' : 'Upload SRT File'}
+                                            {srtFileName ? 'Upload a Different Subtitle File' : 'Upload SRT / VTT / ASS File'}
                                         </button>
                                         <input
                                             type="file"
                                             ref={srtFileInputRef}
                                             onChange={handleSrtFileChange}
-                                            accept=".srt"
+                                            accept=".srt,.vtt,.ass,.ssa"
                                             className="hidden"
                                         />
                                         {srtFileName && <p className="text-gray-300 text-sm">Selected: <span className="font-medium text-white">{srtFileName}</span></p>}
@@ -1246,6 +2470,25 @@ ${JSON.stringify(chunk)}
                                                     Translate File
                                                 </button>
                                             </div>
+                                            <label className="block text-sm text-gray-300">
+                                                Synopsis and characters (optional)
+                                                <textarea
+                                                    value={srtBrief}
+                                                    onChange={(e) => setSrtBrief(e.target.value)}
+                                                    placeholder="e.g. A comedy about two sisters running a bakery. Anna (older, formal), Mia (younger, teasing), Mr. Kowalski (their landlord)."
+                                                    rows={3}
+                                                    disabled={srtStatus === 'processing'}
+                                                    className="mt-1 w-full bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                                />
+                                            </label>
+                                            <GlossaryEditor
+                                                title="Global glossary"
+                                                description="Terms applied to every translation, including subtitle files."
+                                                entries={globalGlossary}
+                                                onChange={setGlobalGlossary}
+                                                fileName="glossary"
+                                                disabled={srtStatus === 'processing'}
+                                            />
                                         </div>
                                     )}
                                     
@@ -1255,15 +2498,32 @@ ${JSON.stringify(chunk)}
                                         </div>
                                     )}
 
-                                    {srtStatus === 'finished' && translatedSrtContent && (
+                                    {srtStatus === 'finished' && translatedSrtTexts && srtDocument && (
                                         <div className="border-t border-gray-700 pt-4 space-y-3 text-center">
                                             <p className="text-green-400 font-semibold">Translation successful!</p>
-                                            <button
-                                                onClick={handleDownloadTranslatedSrt}
-                                                className="w-full sm:w-auto px-6 py-2.5 bg-purple-600 text-white font-semibold rounded-md shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-opacity-50 transition"
-                                            >
-                                                Download Translated .SRT
-                                            </button>
+                                            <GlossaryReport violations={srtGlossaryViolations} itemLabel="Cue" />
+                                            <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+                                                {(['srt', 'vtt', 'ass'] as SubtitleFormat[]).map((format) => (
+                                                    <button
+                                                        key={format}
+                                                        onClick={() => handleDownloadTranslatedSrt(format)}
+                                                        className={`w-full sm:w-auto px-6 py-2.5 text-white font-semibold rounded-md shadow-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-opacity-50 transition ${format === srtDocument.format ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-600 hover:bg-gray-700'}`}
+                                                    >
+                                                        Download Translated .{format.toUpperCase()}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            {srtDocument.format !== 'ass' && (
+                                                <div className="text-left">
+                                                    <AssStyleEditor
+                                                        style={assStyle}
+                                                        onChange={setAssStyle}
+                                                        presets={assStylePresets}
+                                                        onSavePreset={handleSaveAssPreset}
+                                                        onDeletePreset={handleDeleteAssPreset}
+                                                    />
+                                                </div>
+                                            )}
                                         </div>
                                     )}
                                 </div>
@@ -1272,6 +2532,19 @@ ${JSON.stringify(chunk)}
                     </div>
                 </main>
             </div>
+            <div className="w-full max-w-3xl lg:w-72 lg:shrink-0 lg:sticky lg:top-4">
+                <ProjectHistory
+                    projects={projects}
+                    activeProjectId={activeProject?.id ?? null}
+                    onOpen={handleOpenProject}
+                    onRename={handleRenameProject}
+                    onDuplicate={handleDuplicateProject}
+                    onDelete={handleDeleteProject}
+                    storageUsage={storageUsage}
+                    onCleanup={handleCleanupProjects}
+                    disabled={isProcessing || status === AppStatus.RECORDING}
+                />
+            </div>
         </div>
     );
 };
@@ -0,0 +1,125 @@
+import React from 'react';
+import { AssStyle } from '../types.ts';
+
+interface AssStyleEditorProps {
+    style: AssStyle;
+    onChange: (style: AssStyle) => void;
+    presets: AssStyle[];
+    onSavePreset: () => void;
+    onDeletePreset: (name: string) => void;
+}
+
+const inputClass = "w-full bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition";
+
+const ALIGNMENTS: { value: number; label: string }[] = [
+    { value: 7, label: 'Top left' }, { value: 8, label: 'Top center' }, { value: 9, label: 'Top right' },
+    { value: 4, label: 'Middle left' }, { value: 5, label: 'Middle center' }, { value: 6, label: 'Middle right' },
+    { value: 1, label: 'Bottom left' }, { value: 2, label: 'Bottom center' }, { value: 3, label: 'Bottom right' },
+];
+
+// Editor for the style used when writing .ass files, with named presets
+const AssStyleEditor: React.FC<AssStyleEditorProps> = ({ style, onChange, presets, onSavePreset, onDeletePreset }) => {
+    const update = (changes: Partial<AssStyle>) => onChange({ ...style, ...changes });
+
+    const numberField = (key: 'fontSize' | 'outline' | 'shadow' | 'marginL' | 'marginR' | 'marginV', label: string) => (
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+            {label}
+            <input
+                type="number"
+                min={0}
+                value={style[key]}
+                onChange={(e) => update({ [key]: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClass}
+            />
+        </label>
+    );
+
+    const colorField = (key: 'primaryColor' | 'outlineColor' | 'backColor', label: string) => (
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+            {label}
+            <input
+                type="color"
+                value={style[key]}
+                onChange={(e) => update({ [key]: e.target.value.toUpperCase() })}
+                className="w-full h-10 bg-gray-700 border-gray-600 rounded-md cursor-pointer"
+            />
+        </label>
+    );
+
+    const isSavedPreset = presets.some(p => p.name === style.name);
+
+    return (
+        <details className="bg-gray-900/50 rounded-lg border border-gray-700">
+            <summary className="px-4 py-3 cursor-pointer font-medium text-gray-300">ASS Style</summary>
+            <div className="p-4 pt-0 space-y-4">
+                <div className="flex flex-col sm:flex-row items-center gap-3">
+                    <select
+                        value={isSavedPreset ? style.name : ''}
+                        onChange={(e) => {
+                            const preset = presets.find(p => p.name === e.target.value);
+                            if (preset) onChange(preset);
+                        }}
+                        className={inputClass}
+                        aria-label="Style preset"
+                    >
+                        <option value="" disabled>Choose a preset...</option>
+                        {presets.map((preset) => (
+                            <option key={preset.name} value={preset.name}>{preset.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={onSavePreset}
+                        disabled={!style.name.trim()}
+                        className="w-full sm:w-auto shrink-0 px-4 py-2 bg-blue-600 text-white font-semibold rounded-md shadow-md hover:bg-blue-700 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
+                    >
+                        Save Preset
+                    </button>
+                    <button
+                        onClick={() => onDeletePreset(style.name)}
+                        disabled={!isSavedPreset}
+                        className="w-full sm:w-auto shrink-0 px-4 py-2 bg-red-600 text-white font-semibold rounded-md shadow-md hover:bg-red-700 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
+                    >
+                        Delete
+                    </button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    <label className="flex flex-col gap-1 text-sm text-gray-300">
+                        Style name
+                        <input type="text" value={style.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm text-gray-300">
+                        Font
+                        <input type="text" value={style.fontName} onChange={(e) => update({ fontName: e.target.value })} className={inputClass} />
+                    </label>
+                    {numberField('fontSize', 'Size')}
+                    {colorField('primaryColor', 'Text colour')}
+                    {colorField('outlineColor', 'Outline colour')}
+                    {colorField('backColor', 'Shadow colour')}
+                    {numberField('outline', 'Outline')}
+                    {numberField('shadow', 'Shadow')}
+                    <label className="flex flex-col gap-1 text-sm text-gray-300">
+                        Position
+                        <select value={style.alignment} onChange={(e) => update({ alignment: Number(e.target.value) })} className={inputClass}>
+                            {ALIGNMENTS.map((a) => (
+                                <option key={a.value} value={a.value}>{a.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {numberField('marginL', 'Left margin')}
+                    {numberField('marginR', 'Right margin')}
+                    {numberField('marginV', 'Vertical margin')}
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={style.bold} onChange={(e) => update({ bold: e.target.checked })} />
+                        Bold
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={style.italic} onChange={(e) => update({ italic: e.target.checked })} />
+                        Italic
+                    </label>
+                </div>
+            </div>
+        </details>
+    );
+};
+
+export default AssStyleEditor;
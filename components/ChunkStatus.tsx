@@ -0,0 +1,63 @@
+import React from 'react';
+import { ChunkCheckpoint, TranscriptionJob } from '../types.ts';
+import { formatSrtTime } from '../utils/subtitles.ts';
+import { getLanguageName } from '../utils/languages.ts';
+
+interface ChunkStatusProps {
+    job: TranscriptionJob;
+    onResume: () => void;
+    onRetryChunk: (index: number) => void;
+    disabled?: boolean;
+}
+
+const CHUNK_CLASSES: Record<ChunkCheckpoint['status'], string> = {
+    done: 'bg-green-700/60 border-green-600 text-green-100',
+    failed: 'bg-red-700/60 border-red-500 text-red-100 hover:bg-red-600',
+    pending: 'bg-gray-700 border-gray-600 text-gray-300',
+};
+
+const describeChunk = (chunk: ChunkCheckpoint): string => {
+    const range = `${formatSrtTime(chunk.offsetSeconds * 1000)} – ${formatSrtTime((chunk.offsetSeconds + chunk.durationSeconds) * 1000)}`;
+    if (chunk.status === 'failed') return `Chunk ${chunk.index + 1} (${range}) failed: ${chunk.error || 'unknown error'}. Click to retry.`;
+    if (chunk.status === 'pending') return `Chunk ${chunk.index + 1} (${range}) not transcribed yet`;
+    return `Chunk ${chunk.index + 1} (${range}) transcribed${chunk.language ? ` (${getLanguageName(chunk.language)})` : ''}`;
+};
+
+// Per-chunk state of an interrupted transcription, with resume and single-chunk retry
+const ChunkStatus: React.FC<ChunkStatusProps> = ({ job, onResume, onRetryChunk, disabled = false }) => {
+    const done = job.chunks.filter(c => c.status === 'done').length;
+    const failed = job.chunks.filter(c => c.status === 'failed').length;
+
+    return (
+        <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-gray-300">
+                    {done} of {job.chunks.length} chunks transcribed{failed > 0 && <>, <span className="text-red-300">{failed} failed</span></>}.
+                </p>
+                <button
+                    onClick={onResume}
+                    disabled={disabled}
+                    className="px-4 py-1.5 bg-blue-600 text-white font-semibold rounded-md shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition disabled:bg-gray-500 disabled:cursor-not-allowed"
+                >
+                    Resume transcription
+                </button>
+            </div>
+            <div className="flex flex-wrap gap-1" role="list" aria-label="Chunks">
+                {job.chunks.map((chunk) => (
+                    <button
+                        key={chunk.index}
+                        role="listitem"
+                        onClick={chunk.status === 'failed' ? () => onRetryChunk(chunk.index) : undefined}
+                        disabled={disabled || chunk.status !== 'failed'}
+                        title={describeChunk(chunk)}
+                        className={`min-w-[2rem] px-1.5 py-0.5 text-xs font-mono rounded border transition disabled:cursor-default ${CHUNK_CLASSES[chunk.status]}`}
+                    >
+                        {chunk.index + 1}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ChunkStatus;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { DetectedLanguage } from '../utils/chunks.ts';
+import { getLanguageName } from '../utils/languages.ts';
+
+interface DetectedLanguagesProps {
+    languages: DetectedLanguage[]; // Most common first
+}
+
+// Languages found by auto-detection; the chunks are listed for every language but the main one
+const DetectedLanguages: React.FC<DetectedLanguagesProps> = ({ languages }) => {
+    if (languages.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap items-center gap-1 text-xs" title="Detected automatically for each chunk">
+            <span className="text-gray-400">Detected:</span>
+            {languages.map(({ code, chunks }, i) => (
+                <span key={code} className="px-2 py-0.5 rounded-full bg-gray-700 text-gray-200">
+                    {getLanguageName(code)}
+                    {i > 0 && <span className="text-gray-400"> (chunk{chunks.length === 1 ? '' : 's'} {chunks.map(c => c + 1).join(', ')})</span>}
+                </span>
+            ))}
+        </div>
+    );
+};
+
+export default DetectedLanguages;
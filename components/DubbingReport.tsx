@@ -0,0 +1,36 @@
+import React from 'react';
+import { DubbingOverrun } from '../utils/dubbing.ts';
+
+interface DubbingReportProps {
+    overruns: DubbingOverrun[];
+    onSelect?: (index: number) => void;
+}
+
+// Lists the segments whose speech did not fit in the last exported voice-over track
+const DubbingReport: React.FC<DubbingReportProps> = ({ overruns, onSelect }) => {
+    if (overruns.length === 0) return null;
+
+    return (
+        <div className="bg-yellow-900/20 border border-yellow-700 rounded-lg p-3 space-y-2 text-left">
+            <p className="text-sm font-semibold text-yellow-300">
+                Voice-over: {overruns.length} {overruns.length === 1 ? 'segment runs' : 'segments run'} past {overruns.length === 1 ? 'its' : 'their'} end. Shorten the translation or extend the segment.
+            </p>
+            <ul className="space-y-1 max-h-48 overflow-y-auto text-sm text-gray-300">
+                {overruns.map(({ index, overrunMs, speed }) => (
+                    <li key={index}>
+                        {onSelect ? (
+                            <button className="font-semibold text-blue-400 hover:underline" onClick={() => onSelect(index)}>
+                                Segment #{index + 1}
+                            </button>
+                        ) : (
+                            <span className="font-semibold text-gray-400">Segment #{index + 1}</span>
+                        )}
+                        : {(overrunMs / 1000).toFixed(1)}s too long{speed > 1 ? ` even at ${speed.toFixed(2)}× speed` : ''}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default DubbingReport;
@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { GlossaryEntry } from '../types.ts';
+import { LANGUAGES } from '../constants.ts';
+import { glossaryToCsv, glossaryToTbx, mergeGlossaryEntries, parseGlossaryCsv, parseGlossaryTbx } from '../utils/glossary.ts';
+import { downloadBlob } from '../utils/download.ts';
+
+interface GlossaryEditorProps {
+    title: string;
+    description: string;
+    entries: GlossaryEntry[];
+    onChange: (entries: GlossaryEntry[]) => void;
+    fileName: string; // Base name for exported files
+    disabled?: boolean;
+}
+
+const smallButtonClass = "px-2 py-1 text-xs font-semibold rounded bg-gray-700 text-gray-200 hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed";
+const cellInputClass = "w-full bg-gray-700 border-gray-600 text-white rounded px-2 py-1 text-sm disabled:opacity-60";
+
+// Editable term list (source → required translation, or do-not-translate) with CSV/TBX import and export
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ title, description, entries, onChange, fileName, disabled = false }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const updateEntry = (index: number, changes: Partial<GlossaryEntry>) => {
+        onChange(entries.map((entry, i) => {
+            if (i !== index) return entry;
+            const { language, doNotTranslate, ...rest } = { ...entry, ...changes };
+            return { ...rest, ...(language ? { language } : {}), ...(doNotTranslate ? { doNotTranslate } : {}) };
+        }));
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setImportError(null);
+        try {
+            const content = await file.text();
+            const imported = /\.(tbx|xml)$/i.test(file.name) ? parseGlossaryTbx(content) : parseGlossaryCsv(content);
+            if (imported.length === 0) {
+                setImportError(`No glossary terms found in ${file.name}.`);
+                return;
+            }
+            onChange(mergeGlossaryEntries(entries, imported));
+        } catch (err: any) {
+            console.error("Failed to import glossary:", err);
+            setImportError(`Failed to import ${file.name}: ${err.message || err}`);
+        }
+    };
+
+    return (
+        <details className="bg-gray-900/50 rounded-lg border border-gray-700">
+            <summary className="px-4 py-3 cursor-pointer font-medium text-gray-300">
+                {title} ({entries.length} {entries.length === 1 ? 'term' : 'terms'})
+            </summary>
+            <div className="p-4 pt-0 space-y-3">
+                <p className="text-sm text-gray-400">{description}</p>
+                {entries.length > 0 && (
+                    <div className="space-y-2">
+                        <div className="hidden sm:grid grid-cols-[1fr_1fr_9rem_auto_auto] gap-2 text-xs text-gray-500">
+                            <span>Source term</span>
+                            <span>Required translation</span>
+                            <span>Language</span>
+                            <span>Keep as is</span>
+                            <span />
+                        </div>
+                        {entries.map((entry, index) => (
+                            <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_9rem_auto_auto] gap-2 items-center">
+                                <input
+                                    type="text"
+                                    value={entry.source}
+                                    onChange={(e) => updateEntry(index, { source: e.target.value })}
+                                    placeholder="Source term"
+                                    disabled={disabled}
+                                    className={cellInputClass}
+                                    aria-label="Source term"
+                                />
+                                <input
+                                    type="text"
+                                    value={entry.doNotTranslate ? entry.source : entry.target}
+                                    onChange={(e) => updateEntry(index, { target: e.target.value })}
+                                    placeholder="Translation"
+                                    disabled={disabled || entry.doNotTranslate}
+                                    className={cellInputClass}
+                                    aria-label="Required translation"
+                                />
+                                <select
+                                    value={entry.language || ''}
+                                    onChange={(e) => updateEntry(index, { language: e.target.value })}
+                                    disabled={disabled}
+                                    className={cellInputClass}
+                                    aria-label="Target language"
+                                >
+                                    <option value="">Any language</option>
+                                    {LANGUAGES.map((lang) => (
+                                        <option key={lang.code} value={lang.code}>{lang.name}</option>
+                                    ))}
+                                </select>
+                                <label className="flex items-center justify-center gap-1 text-xs text-gray-300" title="Do not translate this term">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!entry.doNotTranslate}
+                                        onChange={(e) => updateEntry(index, { doNotTranslate: e.target.checked })}
+                                        disabled={disabled}
+                                    />
+                                    <span className="sm:hidden">Do not translate</span>
+                                </label>
+                                <button
+                                    className={smallButtonClass}
+                                    onClick={() => onChange(entries.filter((_, i) => i !== index))}
+                                    disabled={disabled}
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                    <button className={smallButtonClass} onClick={() => onChange([...entries, { source: '', target: '' }])} disabled={disabled}>
+                        Add term
+                    </button>
+                    <button className={smallButtonClass} onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+                        Import CSV / TBX
+                    </button>
+                    <button
+                        className={smallButtonClass}
+                        onClick={() => downloadBlob(new Blob([glossaryToCsv(entries)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`)}
+                        disabled={entries.length === 0}
+                    >
+                        Export CSV
+                    </button>
+                    <button
+                        className={smallButtonClass}
+                        onClick={() => downloadBlob(new Blob([glossaryToTbx(entries)], { type: 'application/x-tbx+xml' }), `${fileName}.tbx`)}
+                        disabled={entries.length === 0}
+                    >
+                        Export TBX
+                    </button>
+                    <input type="file" ref={fileInputRef} onChange={handleImport} accept=".csv,.tsv,.txt,.tbx,.xml" className="hidden" />
+                </div>
+                {importError && <p className="text-sm text-red-300">{importError}</p>}
+            </div>
+        </details>
+    );
+};
+
+export default GlossaryEditor;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { GlossaryViolation, getExpectedTerm } from '../utils/glossary.ts';
+
+interface GlossaryReportProps {
+    violations: GlossaryViolation[];
+    itemLabel: string; // "Segment" or "Cue"
+    onSelect?: (index: number) => void;
+}
+
+// Lists translated segments that do not use the glossary's required terms
+const GlossaryReport: React.FC<GlossaryReportProps> = ({ violations, itemLabel, onSelect }) => {
+    if (violations.length === 0) return null;
+
+    return (
+        <div className="bg-yellow-900/20 border border-yellow-700 rounded-lg p-3 space-y-2 text-left">
+            <p className="text-sm font-semibold text-yellow-300">
+                Glossary check: {violations.length} {violations.length === 1 ? 'term was' : 'terms were'} not translated as required
+            </p>
+            <ul className="space-y-1 max-h-48 overflow-y-auto text-sm text-gray-300">
+                {violations.map(({ index, entry }, i) => (
+                    <li key={i}>
+                        {onSelect ? (
+                            <button className="font-semibold text-blue-400 hover:underline" onClick={() => onSelect(index)}>
+                                {itemLabel} #{index + 1}
+                            </button>
+                        ) : (
+                            <span className="font-semibold text-gray-400">{itemLabel} #{index + 1}</span>
+                        )}
+                        : “{entry.source}” should be {entry.doNotTranslate ? 'kept as' : 'translated as'} “{getExpectedTerm(entry)}”
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default GlossaryReport;
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { InputLevel } from '../utils/liveCapture.ts';
+
+interface InputLevelMeterProps {
+    levelRef: React.RefObject<InputLevel | null>; // Updated by the capture pipeline, read once per animation frame
+    paused?: boolean;
+}
+
+const MIN_DB = -60; // Shown as an empty bar
+const CLIPPING_PEAK = 0.99;
+const CLIPPING_HOLD_MS = 2000; // How long the warning stays after the last clipped frame
+
+const toPercent = (amplitude: number): number => {
+    const db = amplitude > 0 ? 20 * Math.log10(amplitude) : MIN_DB;
+    return Math.max(0, Math.min(100, ((db - MIN_DB) / -MIN_DB) * 100));
+};
+
+// Live microphone level with a peak marker and a warning while the input clips
+const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ levelRef, paused = false }) => {
+    const [level, setLevel] = useState<InputLevel>({ rms: 0, peak: 0 });
+    const [clippedAt, setClippedAt] = useState<number | null>(null);
+
+    // Polled here rather than pushed through state so that the rest of the app does not re-render with every frame
+    useEffect(() => {
+        let frame = requestAnimationFrame(function update() {
+            const current = levelRef.current;
+            if (current) {
+                setLevel(previous => previous.rms === current.rms && previous.peak === current.peak ? previous : current);
+                if (current.peak >= CLIPPING_PEAK) setClippedAt(Date.now());
+            }
+            frame = requestAnimationFrame(update);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [levelRef]);
+
+    const isClipping = clippedAt !== null && Date.now() - clippedAt < CLIPPING_HOLD_MS;
+    const rmsPercent = toPercent(level.rms);
+
+    return (
+        <div className="w-full max-w-md mx-auto space-y-1" aria-label="Input level">
+            <div className="relative h-2.5 rounded-full bg-gray-700 overflow-hidden">
+                <div
+                    className={`h-full transition-[width] duration-75 ${isClipping ? 'bg-red-500' : rmsPercent > 80 ? 'bg-yellow-400' : 'bg-green-500'} ${paused ? 'opacity-40' : ''}`}
+                    style={{ width: `${rmsPercent}%` }}
+                />
+                <div className="absolute top-0 h-full w-0.5 bg-white/70" style={{ left: `${toPercent(level.peak)}%` }} />
+            </div>
+            <p className={`text-xs text-center ${isClipping ? 'text-red-300' : 'text-gray-500'}`}>
+                {isClipping
+                    ? 'The input is clipping. Lower the microphone volume or move away from it.'
+                    : paused ? 'Paused: audio is not recorded or sent.' : 'Input level'}
+            </p>
+        </div>
+    );
+};
+
+export default InputLevelMeter;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { LANGUAGES } from '../constants.ts';
+import { getLanguageName } from '../utils/languages.ts';
+
+interface LanguageSwitcherProps {
+    languages: string[]; // Codes of the translations available
+    active: string | null;
+    onSelect: (code: string) => void;
+    disabled?: boolean;
+}
+
+// Tabs for the translations of the current project, in the order of the language list
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ languages, active, onSelect, disabled = false }) => {
+    if (languages.length < 2) return null;
+    const order = (code: string) => {
+        const index = LANGUAGES.findIndex(l => l.code === code);
+        return index >= 0 ? index : LANGUAGES.length;
+    };
+    const sorted = [...languages].sort((a, b) => order(a) - order(b));
+
+    return (
+        <div className="inline-flex flex-wrap rounded-md overflow-hidden border border-gray-600 text-xs" role="group" aria-label="Translation language">
+            {sorted.map((code) => (
+                <button
+                    key={code}
+                    onClick={() => onSelect(code)}
+                    disabled={disabled}
+                    className={`px-2 py-1 font-medium transition disabled:cursor-not-allowed ${code === active ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                    {getLanguageName(code)}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { LiveConnectionState } from '../services/liveConnection.ts';
+
+interface LiveConnectionStatusProps {
+    state: LiveConnectionState;
+}
+
+const STATES: Record<LiveConnectionState, { dot: string; label: string }> = {
+    connecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Connecting...' },
+    connected: { dot: 'bg-green-500', label: 'Connected' },
+    rotating: { dot: 'bg-blue-400 animate-pulse', label: 'Renewing the session...' },
+    reconnecting: { dot: 'bg-red-500 animate-pulse', label: 'Connection lost, reconnecting. Audio is buffered and will be transcribed when it is back.' },
+};
+
+// State of the live transcription connection, shown while recording
+const LiveConnectionStatus: React.FC<LiveConnectionStatusProps> = ({ state }) => {
+    const { dot, label } = STATES[state];
+    return (
+        <p className={`flex items-center justify-center gap-2 text-xs ${state === 'reconnecting' ? 'text-red-300' : 'text-gray-400'}`} role="status">
+            <span className={`inline-block w-2 h-2 rounded-full ${dot}`} />
+            {label}
+        </p>
+    );
+};
+
+export default LiveConnectionStatus;
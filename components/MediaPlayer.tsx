@@ -0,0 +1,104 @@
+import React, { useEffect, useRef } from 'react';
+
+interface MediaPlayerProps {
+    src: string;
+    kind: 'audio' | 'video';
+    mediaRef: React.RefObject<HTMLMediaElement | null>;
+    caption: string | null;
+    // Shown above the main caption, e.g. the original text under a translation preview
+    secondaryCaption?: string | null;
+    onTimeUpdate: (timeMs: number) => void;
+}
+
+// `timeupdate` only fires a few times per second, too coarse for word highlighting, so the
+// position is also polled on animation frames while playing, reported at most this often
+const POLL_STEP_MS = 50;
+
+// Audio or video player with the current cue shown as a live caption
+const MediaPlayer: React.FC<MediaPlayerProps> = ({ src, kind, mediaRef, caption, secondaryCaption = null, onTimeUpdate }) => {
+    const frameRef = useRef<number | null>(null);
+    const lastReportedRef = useRef<number>(-1);
+    const onTimeUpdateRef = useRef(onTimeUpdate);
+    onTimeUpdateRef.current = onTimeUpdate;
+
+    const report = (timeMs: number) => {
+        lastReportedRef.current = timeMs;
+        onTimeUpdateRef.current(timeMs);
+    };
+
+    const stopPolling = () => {
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current);
+            frameRef.current = null;
+        }
+    };
+
+    const startPolling = () => {
+        stopPolling();
+        const tick = () => {
+            const element = mediaRef.current;
+            if (!element || element.paused) {
+                frameRef.current = null;
+                return;
+            }
+            const timeMs = Math.round(element.currentTime * 1000);
+            if (Math.abs(timeMs - lastReportedRef.current) >= POLL_STEP_MS) {
+                report(timeMs);
+            }
+            frameRef.current = requestAnimationFrame(tick);
+        };
+        frameRef.current = requestAnimationFrame(tick);
+    };
+
+    useEffect(() => stopPolling, [src]);
+
+    const handleTimeUpdate = (e: React.SyntheticEvent<HTMLMediaElement>) => {
+        report(Math.round(e.currentTarget.currentTime * 1000));
+    };
+
+    if (kind === 'video') {
+        return (
+            <div className="relative bg-black rounded-lg overflow-hidden">
+                <video
+                    ref={mediaRef as React.RefObject<HTMLVideoElement>}
+                    src={src}
+                    controls
+                    onTimeUpdate={handleTimeUpdate}
+                    onSeeked={handleTimeUpdate}
+                    onPlay={startPolling}
+                    onPause={stopPolling}
+                    className="w-full max-h-[28rem]"
+                />
+                {(caption || secondaryCaption) && (
+                    <div className="absolute inset-x-0 bottom-14 flex flex-col items-center gap-1 px-4 pointer-events-none">
+                        {secondaryCaption && <span className="bg-black/75 text-gray-300 text-base px-3 py-1 rounded whitespace-pre-line text-center">{secondaryCaption}</span>}
+                        {caption && <span className="bg-black/75 text-white text-lg px-3 py-1 rounded whitespace-pre-line text-center">{caption}</span>}
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-2">
+            <audio
+                ref={mediaRef as React.RefObject<HTMLAudioElement>}
+                src={src}
+                controls
+                onTimeUpdate={handleTimeUpdate}
+                onSeeked={handleTimeUpdate}
+                onPlay={startPolling}
+                onPause={stopPolling}
+                className="w-full"
+            />
+            <div className="min-h-[2.5rem] flex flex-col items-center justify-center gap-1 bg-black/60 rounded-lg px-4 py-2">
+                {secondaryCaption && <span className="text-gray-300 text-base whitespace-pre-line text-center">{secondaryCaption}</span>}
+                {caption
+                    ? <span className="text-white text-lg whitespace-pre-line text-center">{caption}</span>
+                    : !secondaryCaption && <span className="text-gray-500 text-sm">Captions appear here during playback</span>}
+            </div>
+        </div>
+    );
+};
+
+export default MediaPlayer;
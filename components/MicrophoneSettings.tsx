@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+
+interface MicrophoneSettingsProps {
+    deviceId: string; // Empty for the system default
+    onDeviceChange: (deviceId: string) => void;
+    noiseSuppression: boolean;
+    onNoiseSuppressionChange: (enabled: boolean) => void;
+    echoCancellation: boolean;
+    onEchoCancellationChange: (enabled: boolean) => void;
+    disabled?: boolean;
+}
+
+// Input device picker and the browser's voice processing switches for live recordings
+const MicrophoneSettings: React.FC<MicrophoneSettingsProps> = ({
+    deviceId, onDeviceChange, noiseSuppression, onNoiseSuppressionChange, echoCancellation, onEchoCancellationChange, disabled = false,
+}) => {
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+    // Labels stay empty until microphone access is granted, so the list is read again after each recording starts
+    useEffect(() => {
+        if (!navigator.mediaDevices?.enumerateDevices) return;
+        let cancelled = false;
+        const refresh = () => {
+            navigator.mediaDevices.enumerateDevices()
+                .then(all => {
+                    if (!cancelled) setDevices(all.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default'));
+                })
+                .catch(err => console.error("Failed to list microphones:", err));
+        };
+        refresh();
+        navigator.mediaDevices.addEventListener('devicechange', refresh);
+        return () => {
+            cancelled = true;
+            navigator.mediaDevices.removeEventListener('devicechange', refresh);
+        };
+    }, [disabled]);
+
+    const isMissing = deviceId !== '' && devices.length > 0 && !devices.some(d => d.deviceId === deviceId);
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+                Microphone:
+                <select
+                    value={isMissing ? '' : deviceId}
+                    onChange={(e) => onDeviceChange(e.target.value)}
+                    disabled={disabled}
+                    className="max-w-[16rem] bg-gray-700 border-gray-600 text-white rounded-md px-2 py-1"
+                >
+                    <option value="">System default</option>
+                    {devices.map((device, index) => (
+                        <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex items-center gap-2">
+                <input type="checkbox" checked={noiseSuppression} onChange={(e) => onNoiseSuppressionChange(e.target.checked)} disabled={disabled} />
+                Noise suppression
+            </label>
+            <label className="flex items-center gap-2">
+                <input type="checkbox" checked={echoCancellation} onChange={(e) => onEchoCancellationChange(e.target.checked)} disabled={disabled} />
+                Echo cancellation
+            </label>
+        </div>
+    );
+};
+
+export default MicrophoneSettings;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types.ts';
+
+interface ProjectHistoryProps {
+    projects: ProjectSummary[];
+    activeProjectId: string | null;
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    storageUsage: { usage: number; quota: number } | null;
+    onCleanup: (olderThanDays: number) => void;
+    disabled?: boolean;
+}
+
+const CLEANUP_AGE_OPTIONS = [7, 30, 90];
+
+const smallButtonClass = "px-2 py-1 text-xs font-semibold rounded bg-gray-700 text-gray-200 hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed";
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+// Saved projects with reopen/rename/duplicate/delete, plus storage usage and cleanup
+const ProjectHistory: React.FC<ProjectHistoryProps> = ({
+    projects, activeProjectId, onOpen, onRename, onDuplicate, onDelete, storageUsage, onCleanup, disabled = false,
+}) => {
+    const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+    const [cleanupDays, setCleanupDays] = useState<number>(CLEANUP_AGE_OPTIONS[1]);
+
+    const commitRename = () => {
+        if (renaming && renaming.name.trim()) {
+            onRename(renaming.id, renaming.name.trim());
+        }
+        setRenaming(null);
+    };
+
+    return (
+        <aside className="bg-gray-800/50 border border-gray-700/50 rounded-2xl shadow-2xl p-4 space-y-4">
+            <h3 className="text-lg font-semibold text-white">History</h3>
+            {projects.length === 0 ? (
+                <p className="text-sm text-gray-500">Transcriptions are saved here automatically.</p>
+            ) : (
+                <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+                    {projects.map((project) => (
+                        <li
+                            key={project.id}
+                            className={`rounded-md p-2 space-y-1 border ${project.id === activeProjectId ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 bg-gray-900/50'}`}
+                        >
+                            {renaming?.id === project.id ? (
+                                <input
+                                    type="text"
+                                    value={renaming.name}
+                                    autoFocus
+                                    onChange={(e) => setRenaming({ id: project.id, name: e.target.value })}
+                                    onBlur={commitRename}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setRenaming(null);
+                                    }}
+                                    className="w-full bg-gray-700 border-gray-600 text-white rounded px-2 py-1 text-sm"
+                                    aria-label="Project name"
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => onOpen(project.id)}
+                                    disabled={disabled}
+                                    className="block w-full text-left text-sm font-medium text-gray-200 hover:text-white truncate disabled:cursor-not-allowed"
+                                    title={project.name}
+                                >
+                                    {project.name}
+                                </button>
+                            )}
+                            <p className="text-xs text-gray-500">
+                                {new Date(project.updatedAt).toLocaleString()} · {project.segmentCount} segments · {formatBytes(project.sizeBytes)}
+                                {project.languages.length > 0 && <> · {project.languages.join(', ')}</>}
+                            </p>
+                            <div className="flex flex-wrap gap-1">
+                                <button className={smallButtonClass} onClick={() => setRenaming({ id: project.id, name: project.name })} disabled={disabled}>
+                                    Rename
+                                </button>
+                                <button className={smallButtonClass} onClick={() => onDuplicate(project.id)} disabled={disabled}>
+                                    Duplicate
+                                </button>
+                                <button
+                                    className={smallButtonClass}
+                                    onClick={() => {
+                                        if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+                                    }}
+                                    disabled={disabled}
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="border-t border-gray-700 pt-3 space-y-2 text-sm text-gray-400">
+                {storageUsage && (
+                    <p>
+                        Storage used: {formatBytes(storageUsage.usage)}
+                        {storageUsage.quota > 0 && <> of {formatBytes(storageUsage.quota)}</>}
+                    </p>
+                )}
+                <div className="flex items-center gap-2">
+                    <select
+                        value={cleanupDays}
+                        onChange={(e) => setCleanupDays(Number(e.target.value))}
+                        className="flex-grow bg-gray-700 border-gray-600 text-gray-200 rounded px-2 py-1 text-xs"
+                        aria-label="Cleanup age"
+                    >
+                        {CLEANUP_AGE_OPTIONS.map((days) => (
+                            <option key={days} value={days}>Older than {days} days</option>
+                        ))}
+                    </select>
+                    <button
+                        className={smallButtonClass}
+                        onClick={() => {
+                            if (window.confirm(`Delete all projects not updated in the last ${cleanupDays} days?`)) onCleanup(cleanupDays);
+                        }}
+                        disabled={disabled || projects.length === 0}
+                    >
+                        Clean up
+                    </button>
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+export default ProjectHistory;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { LocalServerConfig, ProviderId } from '../types.ts';
+import { PROVIDERS, TRANSCRIPTION_MODELS, MAX_REQUEST_CONCURRENCY } from '../constants.ts';
+
+interface ProviderSettingsProps {
+    idPrefix: string;
+    providerId: ProviderId;
+    onProviderChange: (id: ProviderId) => void;
+    transcriptionModel: string;
+    onTranscriptionModelChange: (model: string) => void;
+    localServerConfig: LocalServerConfig;
+    onLocalServerConfigChange: (changes: Partial<LocalServerConfig>) => void;
+    concurrency: number;
+    onConcurrencyChange: (value: number) => void;
+    disabled: boolean;
+}
+
+const selectClass = "w-full sm:w-auto bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition";
+const inputClass = "w-full bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition disabled:opacity-50";
+
+// Provider picker plus the settings of whichever backend is selected
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({
+    idPrefix,
+    providerId,
+    onProviderChange,
+    transcriptionModel,
+    onTranscriptionModelChange,
+    localServerConfig,
+    onLocalServerConfigChange,
+    concurrency,
+    onConcurrencyChange,
+    disabled,
+}) => {
+    const localField = (key: keyof LocalServerConfig, label: string, type: string = 'text') => (
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+            {label}
+            <input
+                type={type}
+                value={localServerConfig[key]}
+                onChange={(e) => onLocalServerConfigChange({ [key]: e.target.value })}
+                className={inputClass}
+                disabled={disabled}
+            />
+        </label>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+                <label htmlFor={`${idPrefix}provider-select`} className="font-medium text-gray-300 shrink-0">Provider:</label>
+                <select
+                    id={`${idPrefix}provider-select`}
+                    value={providerId}
+                    onChange={(e) => onProviderChange(e.target.value as ProviderId)}
+                    className={selectClass}
+                    disabled={disabled}
+                >
+                    {PROVIDERS.map((provider) => (
+                        <option key={provider.id} value={provider.id}>{provider.name}</option>
+                    ))}
+                </select>
+                {providerId === 'gemini' && (
+                    <>
+                        <label htmlFor={`${idPrefix}model-select`} className="font-medium text-gray-300 shrink-0">AI Model:</label>
+                        <select
+                            id={`${idPrefix}model-select`}
+                            value={transcriptionModel}
+                            onChange={(e) => onTranscriptionModelChange(e.target.value)}
+                            className={selectClass}
+                            disabled={disabled}
+                        >
+                            {TRANSCRIPTION_MODELS.map((model) => (
+                                <option key={model} value={model}>{model}</option>
+                            ))}
+                        </select>
+                    </>
+                )}
+                <label htmlFor={`${idPrefix}concurrency-input`} className="font-medium text-gray-300 shrink-0" title="How many chunks or subtitle batches are sent at the same time">
+                    Parallel requests:
+                </label>
+                <input
+                    id={`${idPrefix}concurrency-input`}
+                    type="number"
+                    min={1}
+                    max={MAX_REQUEST_CONCURRENCY}
+                    value={concurrency}
+                    onChange={(e) => onConcurrencyChange(Math.min(MAX_REQUEST_CONCURRENCY, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+                    className={`${selectClass} sm:w-20`}
+                    disabled={disabled}
+                />
+            </div>
+            {providerId === 'local' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {localField('baseUrl', 'Server URL', 'url')}
+                    {localField('apiKey', 'API key (optional)', 'password')}
+                    <label className="flex flex-col gap-1 text-sm text-gray-300">
+                        API style
+                        <select
+                            value={localServerConfig.apiStyle}
+                            onChange={(e) => onLocalServerConfigChange({ apiStyle: e.target.value as LocalServerConfig['apiStyle'] })}
+                            className={inputClass}
+                            disabled={disabled}
+                        >
+                            <option value="openai">OpenAI-compatible (/v1/audio/transcriptions)</option>
+                            <option value="whisper.cpp">whisper.cpp server (/inference)</option>
+                        </select>
+                    </label>
+                    {localField('transcriptionModel', 'Transcription model')}
+                    {localField('translationModel', 'Translation (chat) model')}
+                    {localField('speechModel', 'Speech model')}
+                    {localField('speechVoice', 'Speech voice')}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { TranscriptionSegment } from '../types.ts';
+import { ReadabilityViolation } from '../utils/readability.ts';
+import { formatSrtTime } from '../utils/subtitles.ts';
+
+interface ReadabilityReportProps {
+    violations: ReadabilityViolation[];
+    segments: TranscriptionSegment[]; // The subtitles as exported, which the indices refer to
+    onSelect?: (segment: TranscriptionSegment) => void;
+}
+
+// Lists the exported subtitles that still break a readability rule
+const ReadabilityReport: React.FC<ReadabilityReportProps> = ({ violations, segments, onSelect }) => {
+    if (violations.length === 0) return null;
+
+    return (
+        <div className="bg-yellow-900/20 border border-yellow-700 rounded-lg p-3 space-y-2 text-left">
+            <p className="text-sm font-semibold text-yellow-300">
+                Readability check: {violations.length} {violations.length === 1 ? 'problem remains' : 'problems remain'} in the exported subtitles
+            </p>
+            <ul className="space-y-1 max-h-48 overflow-y-auto text-sm text-gray-300">
+                {violations.map(({ index, message }, i) => (
+                    <li key={i}>
+                        {onSelect ? (
+                            <button className="font-semibold text-blue-400 hover:underline" onClick={() => onSelect(segments[index])}>
+                                Subtitle #{index + 1}
+                            </button>
+                        ) : (
+                            <span className="font-semibold text-gray-400">Subtitle #{index + 1}</span>
+                        )}
+                        {' '}<span className="text-gray-500">({formatSrtTime(segments[index].startTime)})</span>: {message}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ReadabilityReport;
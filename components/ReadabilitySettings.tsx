@@ -0,0 +1,60 @@
+import React from 'react';
+import { SubtitleRules } from '../types.ts';
+import { DEFAULT_SUBTITLE_RULES } from '../constants.ts';
+
+interface ReadabilitySettingsProps {
+    rules: SubtitleRules;
+    onChange: (rules: SubtitleRules) => void;
+    enabled: boolean; // Reflow exported subtitles to the rules
+    onEnabledChange: (enabled: boolean) => void;
+}
+
+const inputClass = "w-full bg-gray-700 border-gray-600 text-white rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition";
+
+const FIELDS: { key: keyof SubtitleRules; label: string; step: number }[] = [
+    { key: 'maxCharsPerLine', label: 'Max characters per line', step: 1 },
+    { key: 'maxLines', label: 'Max lines', step: 1 },
+    { key: 'maxCharsPerSecond', label: 'Max characters per second', step: 0.5 },
+    { key: 'minDurationMs', label: 'Min duration (ms)', step: 1 },
+    { key: 'maxDurationMs', label: 'Max duration (ms)', step: 1 },
+    { key: 'minGapMs', label: 'Min gap between subtitles (ms)', step: 1 },
+];
+
+// Readability limits for exported subtitles and the switch that reflows them on export
+const ReadabilitySettings: React.FC<ReadabilitySettingsProps> = ({ rules, onChange, enabled, onEnabledChange }) => (
+    <details className="bg-gray-900/50 rounded-lg border border-gray-700">
+        <summary className="px-4 py-3 cursor-pointer font-medium text-gray-300">Readability Rules</summary>
+        <div className="p-4 pt-0 space-y-4">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+                Split, merge, retime and line-break subtitles to these rules when exporting
+            </label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {FIELDS.map(({ key, label, step }) => (
+                    <label key={key} className="flex flex-col gap-1 text-sm text-gray-300">
+                        {label}
+                        <input
+                            type="number"
+                            min={key === 'minGapMs' ? 0 : step}
+                            step={step}
+                            value={rules[key]}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                if (Number.isFinite(value) && value >= 0) onChange({ ...rules, [key]: value });
+                            }}
+                            className={inputClass}
+                        />
+                    </label>
+                ))}
+            </div>
+            <button
+                onClick={() => onChange(DEFAULT_SUBTITLE_RULES)}
+                className="px-3 py-1.5 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 transition text-sm"
+            >
+                Reset to broadcast defaults
+            </button>
+        </div>
+    </details>
+);
+
+export default ReadabilitySettings;
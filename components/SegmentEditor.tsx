@@ -0,0 +1,136 @@
+import React, { useRef } from 'react';
+import { TranscriptionSegment } from '../types.ts';
+import { NUDGE_STEP_MS, SegmentEdit } from '../utils/segmentEdits.ts';
+import { formatVttTime } from '../utils/subtitles.ts';
+import { getSpeakerName } from '../utils/speakers.ts';
+
+interface SegmentEditorProps {
+    segments: TranscriptionSegment[];
+    onEdit: (edit: SegmentEdit) => void;
+    disabled?: boolean;
+    activeIndex?: number;
+    onSeek?: (segment: TranscriptionSegment) => void;
+    speakerLabels?: string[];
+    speakerNames?: Record<string, string>;
+}
+
+const smallButtonClass = "px-2 py-1 text-xs font-semibold rounded bg-gray-700 text-gray-200 hover:bg-gray-600 transition disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Per-segment table for correcting text and timings
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, onEdit, disabled = false, activeIndex = -1, onSeek, speakerLabels = [], speakerNames = {} }) => {
+    // Last caret position per row, used by "Split"
+    const cursorRef = useRef<{ index: number; position: number } | null>(null);
+    // Row currently being typed in, so a burst of keystrokes is recorded as a single undo step
+    const typingRowRef = useRef<number | null>(null);
+
+    const rememberCursor = (index: number, e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+        cursorRef.current = { index, position: e.currentTarget.selectionStart };
+    };
+
+    const timeControl = (index: number, edge: 'startTime' | 'endTime', value: number) => (
+        <div className="flex items-center gap-1">
+            <button
+                className={smallButtonClass}
+                onClick={() => onEdit({ type: 'nudge', index, edge, deltaMs: -NUDGE_STEP_MS })}
+                disabled={disabled}
+                title={`Move ${edge === 'startTime' ? 'start' : 'end'} earlier by ${NUDGE_STEP_MS} ms`}
+            >
+                −
+            </button>
+            <span className="font-mono text-xs text-gray-300 tabular-nums">{formatVttTime(value)}</span>
+            <button
+                className={smallButtonClass}
+                onClick={() => onEdit({ type: 'nudge', index, edge, deltaMs: NUDGE_STEP_MS })}
+                disabled={disabled}
+                title={`Move ${edge === 'startTime' ? 'start' : 'end'} later by ${NUDGE_STEP_MS} ms`}
+            >
+                +
+            </button>
+        </div>
+    );
+
+    return (
+        <div className="bg-gray-900 rounded-lg p-2 max-h-[32rem] overflow-y-auto space-y-2">
+            {segments.map((segment, index) => (
+                <div
+                    key={index}
+                    className={`rounded-md p-2 space-y-2 border ${segment.stale ? 'border-yellow-600 bg-yellow-900/20' : 'border-gray-700 bg-gray-800/50'} ${index === activeIndex ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                        {onSeek ? (
+                            <button className="font-semibold text-blue-400 hover:underline" onClick={() => onSeek(segment)} title="Play from this segment">
+                                #{index + 1} ▶
+                            </button>
+                        ) : (
+                            <span className="font-semibold text-gray-500">#{index + 1}</span>
+                        )}
+                        {timeControl(index, 'startTime', segment.startTime)}
+                        <span>→</span>
+                        {timeControl(index, 'endTime', segment.endTime)}
+                        {speakerLabels.length > 0 && (
+                            <select
+                                value={segment.speaker || ''}
+                                onChange={(e) => onEdit({ type: 'speaker', index, speaker: e.target.value })}
+                                disabled={disabled}
+                                className="bg-gray-700 border-gray-600 text-gray-200 rounded px-1 py-0.5 text-xs"
+                                aria-label="Speaker"
+                            >
+                                {!segment.speaker && <option value="">No speaker</option>}
+                                {speakerLabels.map((label) => (
+                                    <option key={label} value={label}>{getSpeakerName(label, speakerNames)}</option>
+                                ))}
+                            </select>
+                        )}
+                        {segment.stale && <span className="text-yellow-400 font-semibold">Needs re-translation</span>}
+                    </div>
+                    <textarea
+                        value={segment.text}
+                        rows={2}
+                        disabled={disabled}
+                        onChange={(e) => {
+                            onEdit({ type: 'text', index, text: e.target.value, continued: typingRowRef.current === index });
+                            typingRowRef.current = index;
+                            rememberCursor(index, e);
+                        }}
+                        onSelect={(e) => rememberCursor(index, e)}
+                        onBlur={() => { typingRowRef.current = null; }}
+                        className="w-full bg-gray-700 border-gray-600 text-gray-200 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            className={smallButtonClass}
+                            onClick={() => {
+                                const position = cursorRef.current?.index === index ? cursorRef.current.position : Math.floor(segment.text.length / 2);
+                                onEdit({ type: 'split', index, position });
+                            }}
+                            disabled={disabled || segment.text.length < 2}
+                            title="Split at the cursor position"
+                        >
+                            Split
+                        </button>
+                        <button
+                            className={smallButtonClass}
+                            onClick={() => onEdit({ type: 'merge', index })}
+                            disabled={disabled || index === segments.length - 1}
+                        >
+                            Merge with next
+                        </button>
+                        <button className={smallButtonClass} onClick={() => onEdit({ type: 'insert', index })} disabled={disabled}>
+                            Insert after
+                        </button>
+                        <button className={smallButtonClass} onClick={() => onEdit({ type: 'delete', index })} disabled={disabled}>
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            ))}
+            {segments.length === 0 && (
+                <button className={smallButtonClass} onClick={() => onEdit({ type: 'insert', index: -1 })} disabled={disabled}>
+                    Add segment
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default SegmentEditor;
@@ -0,0 +1,30 @@
+import React from 'react';
+
+interface SpeakerNamesProps {
+    labels: string[];
+    names: Record<string, string>;
+    onRename: (label: string, name: string) => void;
+}
+
+// Lets detected speaker labels be renamed once for the transcript, translation and exports
+const SpeakerNames: React.FC<SpeakerNamesProps> = ({ labels, names, onRename }) => (
+    <div className="space-y-2">
+        <h3 className="font-semibold text-lg text-white">Speakers</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {labels.map((label) => (
+                <label key={label} className="flex items-center gap-2 text-sm text-gray-300">
+                    <span className="shrink-0 w-24 text-gray-400">{label}</span>
+                    <input
+                        type="text"
+                        placeholder={label}
+                        value={names[label] || ''}
+                        onChange={(e) => onRename(label, e.target.value)}
+                        className="w-full bg-gray-700 border-gray-600 text-white rounded-md px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                    />
+                </label>
+            ))}
+        </div>
+    </div>
+);
+
+export default SpeakerNames;
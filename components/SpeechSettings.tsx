@@ -0,0 +1,65 @@
+import React from 'react';
+import { GEMINI_VOICES } from '../constants.ts';
+
+interface SpeechSettingsProps {
+    voice: string;
+    onVoiceChange: (voice: string) => void;
+    showVoice: boolean; // Only Gemini voices are listed; the local server has its own voice field
+    rate: number;
+    onRateChange: (rate: number) => void;
+    style: string;
+    onStyleChange: (style: string) => void;
+    disabled?: boolean;
+}
+
+export const MIN_SPEECH_RATE = 0.75;
+export const MAX_SPEECH_RATE = 1.5;
+
+// Voice, pace and delivery of spoken translations
+const SpeechSettings: React.FC<SpeechSettingsProps> = ({
+    voice, onVoiceChange, showVoice, rate, onRateChange, style, onStyleChange, disabled = false,
+}) => (
+    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-sm text-gray-300">
+        {showVoice && (
+            <label className="flex items-center gap-2">
+                Voice:
+                <select
+                    value={voice}
+                    onChange={(e) => onVoiceChange(e.target.value)}
+                    disabled={disabled}
+                    className="bg-gray-700 border-gray-600 text-white rounded-md px-2 py-1"
+                >
+                    {GEMINI_VOICES.map(({ name, description }) => (
+                        <option key={name} value={name}>{name} ({description})</option>
+                    ))}
+                </select>
+            </label>
+        )}
+        <label className="flex items-center gap-2">
+            Speed:
+            <input
+                type="range"
+                min={MIN_SPEECH_RATE}
+                max={MAX_SPEECH_RATE}
+                step={0.05}
+                value={rate}
+                onChange={(e) => onRateChange(Number(e.target.value))}
+                disabled={disabled}
+            />
+            <span className="w-10 tabular-nums">{rate.toFixed(2)}×</span>
+        </label>
+        <label className="flex items-center gap-2">
+            Style:
+            <input
+                type="text"
+                value={style}
+                onChange={(e) => onStyleChange(e.target.value)}
+                placeholder="e.g. calm and friendly"
+                disabled={disabled}
+                className="w-56 bg-gray-700 border-gray-600 text-white rounded-md px-2 py-1"
+            />
+        </label>
+    </div>
+);
+
+export default SpeechSettings;
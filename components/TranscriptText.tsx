@@ -0,0 +1,70 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptionSegment } from '../types.ts';
+import { getSpeakerName } from '../utils/speakers.ts';
+import { findWordIndexAt } from '../utils/timeline.ts';
+
+interface TranscriptTextProps {
+    segments: TranscriptionSegment[];
+    activeIndex: number;
+    onSeek?: (segment: TranscriptionSegment) => void;
+    trailingText?: string;
+    placeholder: string;
+    speakerNames?: Record<string, string>;
+    playbackTime?: number; // When set, the spoken word of the active segment is highlighted
+    segmentAction?: (index: number) => React.ReactNode; // Shown after each segment, fully visible on hover
+}
+
+// Read-only running text where each segment can be clicked to seek and the playing one is highlighted
+const TranscriptText: React.FC<TranscriptTextProps> = ({ segments, activeIndex, onSeek, trailingText = '', placeholder, speakerNames = {}, playbackTime, segmentAction }) => {
+    const activeRef = useRef<HTMLSpanElement>(null);
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [activeIndex]);
+
+    if (segments.length === 0 && !trailingText.trim()) {
+        return <span className="text-gray-500">{placeholder}</span>;
+    }
+
+    const renderText = (segment: TranscriptionSegment, isActive: boolean) => {
+        if (!isActive || playbackTime === undefined || !segment.words || segment.words.length === 0) {
+            return segment.text;
+        }
+        const activeWord = findWordIndexAt(segment.words, playbackTime);
+        return segment.words.map((word, i) => (
+            <React.Fragment key={i}>
+                {i > 0 && ' '}
+                <span className={i === activeWord ? 'bg-yellow-400 text-gray-900 rounded px-0.5' : i < activeWord ? 'text-blue-200' : ''}>{word.text}</span>
+            </React.Fragment>
+        ));
+    };
+
+    return (
+        <>
+            {segments.map((segment, index) => (
+                <React.Fragment key={index}>
+                    {segment.speaker && segment.speaker !== segments[index - 1]?.speaker && (
+                        <>
+                            {index > 0 && <br />}
+                            <strong className="text-blue-300">{getSpeakerName(segment.speaker, speakerNames)}: </strong>
+                        </>
+                    )}
+                    <span className="group">
+                        <span
+                            ref={index === activeIndex ? activeRef : undefined}
+                            onClick={onSeek ? () => onSeek(segment) : undefined}
+                            className={`rounded transition-colors ${onSeek ? 'cursor-pointer hover:bg-gray-700/60' : ''} ${index === activeIndex ? 'bg-blue-600/40 text-white' : ''}`}
+                        >
+                            {renderText(segment, index === activeIndex)}
+                        </span>
+                        {segmentAction?.(index)}
+                    </span>
+                    {' '}
+                </React.Fragment>
+            ))}
+            {trailingText}
+        </>
+    );
+};
+
+export default TranscriptText;
@@ -1,4 +1,4 @@
-import { Language } from './types.ts';
+import { AssStyle, Language, LocalServerConfig, ProviderId, SubtitleRules } from './types.ts';
 
 export const LANGUAGES: Language[] = [
   { code: 'en', name: 'English' },
@@ -19,4 +19,84 @@ export const LANGUAGES: Language[] = [
 export const TRANSCRIPTION_MODELS: string[] = [
   'gemini-2.5-pro',
   'gemini-2.5-flash',
-];
\ No newline at end of file
+];
+
+// Prebuilt voices of the Gemini TTS model, with the character Google describes them by
+export const GEMINI_VOICES: { name: string; description: string }[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Callirrhoe', description: 'Easy-going' },
+  { name: 'Autonoe', description: 'Bright' },
+  { name: 'Enceladus', description: 'Breathy' },
+  { name: 'Iapetus', description: 'Clear' },
+  { name: 'Umbriel', description: 'Easy-going' },
+  { name: 'Algieba', description: 'Smooth' },
+  { name: 'Despina', description: 'Smooth' },
+  { name: 'Erinome', description: 'Clear' },
+  { name: 'Algenib', description: 'Gravelly' },
+  { name: 'Rasalgethi', description: 'Informative' },
+  { name: 'Laomedeia', description: 'Upbeat' },
+  { name: 'Achernar', description: 'Soft' },
+  { name: 'Alnilam', description: 'Firm' },
+  { name: 'Schedar', description: 'Even' },
+  { name: 'Gacrux', description: 'Mature' },
+  { name: 'Pulcherrima', description: 'Forward' },
+  { name: 'Achird', description: 'Friendly' },
+  { name: 'Zubenelgenubi', description: 'Casual' },
+  { name: 'Vindemiatrix', description: 'Gentle' },
+  { name: 'Sadachbia', description: 'Lively' },
+  { name: 'Sadaltager', description: 'Knowledgeable' },
+  { name: 'Sulafat', description: 'Warm' },
+];
+
+export const PROVIDERS: { id: ProviderId; name: string }[] = [
+  { id: 'gemini', name: 'Google Gemini' },
+  { id: 'local', name: 'Local server (OpenAI-compatible / whisper.cpp)' },
+];
+
+// Chunks or subtitle batches sent to the provider at the same time
+export const DEFAULT_REQUEST_CONCURRENCY = 3;
+export const MAX_REQUEST_CONCURRENCY = 8;
+
+export const DEFAULT_LOCAL_SERVER_CONFIG: LocalServerConfig = {
+  baseUrl: 'http://localhost:8080',
+  apiKey: '',
+  apiStyle: 'openai',
+  transcriptionModel: 'whisper-1',
+  translationModel: 'gpt-4o-mini',
+  speechModel: 'tts-1',
+  speechVoice: 'alloy',
+};
+
+// Common broadcast limits: two lines of 42 characters, 17 characters per second, two frames between subtitles
+export const DEFAULT_SUBTITLE_RULES: SubtitleRules = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxCharsPerSecond: 17,
+  minDurationMs: 833,
+  maxDurationMs: 7000,
+  minGapMs: 83,
+};
+
+export const DEFAULT_ASS_STYLE: AssStyle = {
+  name: 'Default',
+  fontName: 'Arial',
+  fontSize: 48,
+  primaryColor: '#FFFFFF',
+  outlineColor: '#000000',
+  backColor: '#000000',
+  bold: false,
+  italic: false,
+  outline: 2,
+  shadow: 0,
+  alignment: 2,
+  marginL: 20,
+  marginR: 20,
+  marginV: 30,
+};
@@ -0,0 +1,64 @@
+import { useState, useCallback, SetStateAction } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface History<T> {
+    past: T[];
+    present: T;
+    future: T[];
+}
+
+const resolve = <T,>(update: SetStateAction<T>, previous: T): T =>
+    typeof update === 'function' ? (update as (prev: T) => T)(previous) : update;
+
+/**
+ * State with an undo/redo history.
+ * `set` replaces the value without recording history (for streaming updates), while `commit`
+ * records the previous value so the change can be undone.
+ */
+export const useUndoableState = <T,>(initial: T) => {
+    const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+    const set = useCallback((update: SetStateAction<T>) => {
+        setHistory(h => ({ ...h, present: resolve(update, h.present) }));
+    }, []);
+
+    const commit = useCallback((update: SetStateAction<T>) => {
+        setHistory(h => ({
+            past: [...h.past, h.present].slice(-MAX_HISTORY),
+            present: resolve(update, h.present),
+            future: [],
+        }));
+    }, []);
+
+    const undo = useCallback(() => {
+        setHistory(h => h.past.length === 0 ? h : {
+            past: h.past.slice(0, -1),
+            present: h.past[h.past.length - 1],
+            future: [h.present, ...h.future],
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(h => h.future.length === 0 ? h : {
+            past: [...h.past, h.present],
+            present: h.future[0],
+            future: h.future.slice(1),
+        });
+    }, []);
+
+    const clearHistory = useCallback(() => {
+        setHistory(h => ({ past: [], present: h.present, future: [] }));
+    }, []);
+
+    return {
+        value: history.present,
+        set,
+        commit,
+        undo,
+        redo,
+        clearHistory,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+    };
+};
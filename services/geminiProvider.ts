@@ -0,0 +1,211 @@
+import { GoogleGenAI, LiveServerMessage, Modality, Type } from '@google/genai';
+import { TranscriptionOptions, TranscriptionProvider, TranscriptionSegment } from '../types.ts';
+import { encode, decode } from '../utils/audio.ts';
+import { normalizeLanguageCode } from '../utils/languages.ts';
+import { buildTranscribePrompt, buildSegmentTranslationPrompt, buildTextsTranslationPrompt, buildSpeechPrompt } from './prompts.ts';
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const TTS_SAMPLE_RATE = 24000; // The Gemini TTS model returns 24kHz mono PCM
+
+const segmentArraySchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            startTime: { type: Type.NUMBER },
+            endTime: { type: Type.NUMBER },
+            text: { type: Type.STRING },
+        },
+        required: ['startTime', 'endTime', 'text'],
+    },
+};
+
+const wordArraySchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            text: { type: Type.STRING },
+            startTime: { type: Type.NUMBER },
+            endTime: { type: Type.NUMBER },
+        },
+        required: ['text', 'startTime', 'endTime'],
+    },
+};
+
+const speakerArraySchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            label: { type: Type.STRING },
+            description: { type: Type.STRING },
+        },
+        required: ['label', 'description'],
+    },
+};
+
+// Segment items gain a speaker and/or a word list depending on the requested options
+const buildSegmentItemSchema = (options: TranscriptionOptions) => ({
+    type: Type.OBJECT,
+    properties: {
+        startTime: { type: Type.NUMBER },
+        endTime: { type: Type.NUMBER },
+        ...(options.diarize ? { speaker: { type: Type.STRING } } : {}),
+        text: { type: Type.STRING },
+        ...(options.wordTimestamps ? { words: wordArraySchema } : {}),
+    },
+    required: [
+        'startTime', 'endTime', 'text',
+        ...(options.diarize ? ['speaker'] : []),
+        ...(options.wordTimestamps ? ['words'] : []),
+    ],
+});
+
+// A bare segment array unless speakers or the detected language come back alongside it
+const isWrappedTranscript = (options: TranscriptionOptions): boolean => !!options.diarize || !options.language;
+
+const buildTranscriptSchema = (options: TranscriptionOptions) => {
+    const segments = { type: Type.ARRAY, items: buildSegmentItemSchema(options) };
+    if (!isWrappedTranscript(options)) {
+        return segments;
+    }
+    return {
+        type: Type.OBJECT,
+        properties: {
+            ...(options.language ? {} : { language: { type: Type.STRING } }),
+            segments,
+            ...(options.diarize ? { speakers: speakerArraySchema } : {}),
+        },
+        required: [
+            ...(options.language ? [] : ['language']),
+            'segments',
+            ...(options.diarize ? ['speakers'] : []),
+        ],
+    };
+};
+
+const toMs = (seconds: number): number => Math.round(seconds * 1000);
+
+/**
+ * Creates a provider backed by the Gemini API.
+ * `model` is used for transcription and translation; speech and live streaming use fixed models.
+ */
+export const createGeminiProvider = (apiKey: string, model: string): TranscriptionProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        supportsLive: true,
+        supportsSpeech: true,
+        supportsDiarization: true,
+
+        transcribe: async ({ mimeType, data }, options = {}) => {
+            const audioPart = { inlineData: { mimeType, data: encode(new Uint8Array(data)) } };
+            const textPart = { text: buildTranscribePrompt(options) };
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [audioPart, textPart] },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: buildTranscriptSchema(options),
+                },
+            });
+
+            const parsed = JSON.parse(response.text);
+            const parsedSegments = isWrappedTranscript(options) ? parsed.segments : parsed;
+            const language = !options.language && typeof parsed.language === 'string' ? normalizeLanguageCode(parsed.language) : undefined;
+            return {
+                segments: parsedSegments.map((s: any): TranscriptionSegment => ({
+                    text: s.text,
+                    startTime: toMs(s.startTime),
+                    endTime: toMs(s.endTime),
+                    ...(s.speaker ? { speaker: s.speaker } : {}),
+                    ...(Array.isArray(s.words) && s.words.length > 0 ? {
+                        words: s.words.map((w: any) => ({ text: w.text, startTime: toMs(w.startTime), endTime: toMs(w.endTime) })),
+                    } : {}),
+                })),
+                ...(options.diarize ? { speakers: parsed.speakers } : {}),
+                ...(language ? { language } : {}),
+            };
+        },
+
+        translateSegments: async (segments, languageName, options) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: buildSegmentTranslationPrompt(segments, languageName, options),
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: segmentArraySchema,
+                },
+            });
+            return JSON.parse(response.text);
+        },
+
+        translateTexts: async (texts, languageName, options) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: buildTextsTranslationPrompt(texts, languageName, options),
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+            });
+            return JSON.parse(response.text);
+        },
+
+        synthesize: async (text, options = {}) => {
+            const response = await ai.models.generateContent({
+                model: TTS_MODEL,
+                contents: [{ parts: [{ text: buildSpeechPrompt(text, options) }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    ...(options.voice ? { speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice } } } } : {}),
+                },
+            });
+
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new Error("No audio data received from API.");
+            }
+            return { data: decode(base64Audio), sampleRate: TTS_SAMPLE_RATE, numChannels: 1 };
+        },
+
+        connectLive: async (callbacks) => {
+            const session = await ai.live.connect({
+                model: LIVE_MODEL,
+                callbacks: {
+                    onopen: () => console.log('Session opened.'),
+                    onmessage: (message: LiveServerMessage) => {
+                        if (message.serverContent?.inputTranscription?.text) {
+                            callbacks.onTranscription(message.serverContent.inputTranscription.text);
+                        }
+                        if (message.serverContent?.turnComplete) {
+                            callbacks.onTurnComplete();
+                        }
+                        if (message.goAway) {
+                            callbacks.onGoAway?.();
+                        }
+                    },
+                    onerror: (e: ErrorEvent) => callbacks.onError(e),
+                    onclose: () => {
+                        console.log('Session closed.');
+                        callbacks.onClose();
+                    },
+                },
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    inputAudioTranscription: {},
+                },
+            });
+
+            return {
+                sendAudio: (pcm) => session.sendRealtimeInput({ media: pcm }),
+                endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+                close: () => session.close(),
+            };
+        },
+    };
+};
@@ -0,0 +1,342 @@
+import { LiveSession, TranscriptionProvider } from '../types.ts';
+
+export type LiveConnectionState = 'connecting' | 'connected' | 'rotating' | 'reconnecting';
+
+// Microphone audio with its place on the recording clock
+export interface LiveAudioChunk {
+    data: string; // Base64 PCM
+    mimeType: string;
+    endTime: number; // Recording time at the end of the chunk, in milliseconds
+    duration: number; // in milliseconds
+}
+
+/**
+ * Times passed to the callbacks are the recording time of the latest audio the reporting session had
+ * received. Text transcribed from replayed audio is therefore placed near where it was spoken rather
+ * than where it arrived, and the timeline carries on across sessions.
+ */
+export interface LiveConnectionCallbacks {
+    onTranscription: (text: string, time: number) => void;
+    onTurnComplete: (time: number) => void;
+    onStateChange: (state: LiveConnectionState) => void;
+    onFailed: (error: unknown) => void; // The connection could not be restored and has been closed
+}
+
+export interface LiveConnection {
+    sendAudio: (chunk: LiveAudioChunk) => void;
+    endAudioStream: () => void;
+    close: () => void;
+}
+
+// Live connections are closed by the server after about ten minutes, so they are replaced before that
+const ROTATE_AFTER_MS = 9 * 60 * 1000;
+const ROTATION_RETRY_MS = 30 * 1000; // When the replacement could not be opened
+const TURN_BOUNDARY_WAIT_MS = 20 * 1000; // Longest wait for a pause to switch sessions at
+const DRAIN_MS = 5000; // Time a replaced session has to transcribe the audio it already received
+const RECONNECT_DELAYS_MS = [0, 1000, 2000, 5000, 10000, 20000, 30000, 30000];
+const MAX_BUFFERED_MS = 5 * 60 * 1000; // Older audio is dropped from the replay; it is still recorded
+const CATCH_UP_INTERVAL_MS = 100;
+const CATCH_UP_SPEED = 3; // Buffered audio is replayed this many times faster than real time
+
+interface SessionSlot {
+    session: LiveSession | null; // Null until connected
+    audioTime: number; // Recording time at the end of the last audio sent to it
+    turnOpen: boolean; // Text has arrived since the last completed turn
+    retired: boolean; // Replaced or lost; its closing is expected
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Keeps a live transcription running for as long as the recording lasts. Sessions are rotated before
+ * the server's limit, switching at a pause between turns, and a lost session is reconnected with
+ * backoff. Audio that arrives while no session is open is buffered and replayed, faster than real
+ * time, to the next one.
+ */
+export const createLiveConnection = (provider: TranscriptionProvider, callbacks: LiveConnectionCallbacks): LiveConnection => {
+    let active: SessionSlot | null = null;
+    let next: SessionSlot | null = null; // Being opened to replace `active`
+    const draining = new Set<SessionSlot>();
+    // A replaced session still finishing its turn; text from the new session waits in `held` until it has
+    let holdingFor: SessionSlot | null = null;
+    const held: (() => void)[] = [];
+    const backlog: LiveAudioChunk[] = [];
+    let backlogDuration = 0;
+    let latestTime = 0;
+    let closed = false;
+    let reconnecting = false;
+    let rotateTimer: number | undefined;
+    let switchTimer: number | undefined;
+    let catchUpTimer: number | undefined;
+
+    const closeSession = (slot: SessionSlot) => {
+        try {
+            slot.session?.close();
+        } catch (e) {
+            console.error("Error closing session:", e);
+        }
+    };
+
+    const send = (slot: SessionSlot, chunk: LiveAudioChunk): boolean => {
+        try {
+            slot.session!.sendAudio({ data: chunk.data, mimeType: chunk.mimeType });
+            slot.audioTime = chunk.endTime;
+            return true;
+        } catch (error) {
+            handleLost(slot, error);
+            return false;
+        }
+    };
+
+    const stopCatchUp = () => {
+        window.clearInterval(catchUpTimer);
+        catchUpTimer = undefined;
+    };
+
+    // New audio queues behind the backlog until it has been replayed, so the session hears everything in order
+    const startCatchUp = () => {
+        if (catchUpTimer !== undefined || backlog.length === 0) return;
+        catchUpTimer = window.setInterval(() => {
+            let budget = CATCH_UP_INTERVAL_MS * CATCH_UP_SPEED;
+            while (active?.session && backlog.length > 0 && budget > 0) {
+                const chunk = backlog[0];
+                if (!send(active, chunk)) break;
+                backlog.shift();
+                backlogDuration -= chunk.duration;
+                budget -= chunk.duration;
+            }
+            if (!active || backlog.length === 0) stopCatchUp();
+        }, CATCH_UP_INTERVAL_MS);
+    };
+
+    // Passes a session's event on, or holds it back while a replaced session finishes its turn
+    const deliver = (slot: SessionSlot, event: () => void) => {
+        if (holdingFor && slot !== holdingFor) held.push(event);
+        else event();
+    };
+
+    // Ends the replaced session's turn, if it has not ended it itself, and passes on the held events
+    const releaseHeld = () => {
+        const slot = holdingFor;
+        if (!slot) return;
+        holdingFor = null;
+        if (slot.turnOpen) {
+            slot.turnOpen = false;
+            callbacks.onTurnComplete(slot.audioTime);
+        }
+        for (const event of held.splice(0)) event();
+    };
+
+    const openSession = (slot: SessionSlot): Promise<LiveSession> => provider.connectLive({
+        onTranscription: (text) => {
+            if (closed) return;
+            slot.turnOpen = true;
+            const time = slot.audioTime;
+            deliver(slot, () => callbacks.onTranscription(text, time));
+        },
+        onTurnComplete: () => {
+            if (closed) return;
+            slot.turnOpen = false;
+            const time = slot.audioTime;
+            deliver(slot, () => callbacks.onTurnComplete(time));
+            if (slot === holdingFor) releaseHeld();
+            if (slot === active && next?.session) switchToNext();
+        },
+        onGoAway: () => {
+            if (slot === active) rotate();
+        },
+        onError: (error) => handleLost(slot, error),
+        onClose: () => handleLost(slot, new Error('The live session was closed by the server.')),
+    });
+
+    const scheduleRotation = (delayMs: number) => {
+        window.clearTimeout(rotateTimer);
+        rotateTimer = window.setTimeout(rotate, delayMs);
+    };
+
+    const activate = (slot: SessionSlot) => {
+        active = slot;
+        callbacks.onStateChange('connected');
+        scheduleRotation(ROTATE_AFTER_MS);
+        startCatchUp();
+    };
+
+    const switchToNext = () => {
+        window.clearTimeout(switchTimer);
+        const previous = active;
+        const upcoming = next;
+        if (!upcoming?.session) return;
+        next = null;
+        activate(upcoming);
+        if (!previous) return;
+        // The old session is told that no more audio follows and finishes its turn before it is closed;
+        // a switch forced mid-turn holds back the new session's text so that the two do not interleave
+        previous.retired = true;
+        draining.add(previous);
+        if (previous.turnOpen && !holdingFor) holdingFor = previous;
+        try {
+            previous.session?.endAudioStream();
+        } catch (e) {
+            console.error("Error ending the audio stream:", e);
+        }
+        window.setTimeout(() => {
+            if (holdingFor === previous) releaseHeld();
+            draining.delete(previous);
+            closeSession(previous);
+        }, DRAIN_MS);
+    };
+
+    const fail = (error: unknown) => {
+        close();
+        callbacks.onFailed(error);
+    };
+
+    const reconnect = async () => {
+        if (reconnecting) return;
+        reconnecting = true;
+        callbacks.onStateChange('reconnecting');
+        let lastError: unknown;
+        for (const delayMs of RECONNECT_DELAYS_MS) {
+            await sleep(delayMs);
+            if (closed) return;
+            const slot: SessionSlot = { session: null, audioTime: latestTime, turnOpen: false, retired: false };
+            try {
+                slot.session = await openSession(slot);
+            } catch (error) {
+                console.error("Live reconnection attempt failed:", error);
+                lastError = error;
+                continue;
+            }
+            if (closed) {
+                closeSession(slot);
+                return;
+            }
+            if (slot.retired) continue;
+            reconnecting = false;
+            activate(slot);
+            return;
+        }
+        reconnecting = false;
+        if (!closed) fail(lastError);
+    };
+
+    // A session is opened while the current one keeps working, then swapped in at the next pause
+    const rotate = async () => {
+        if (closed || !active || next) return;
+        window.clearTimeout(rotateTimer);
+        callbacks.onStateChange('rotating');
+        const slot: SessionSlot = { session: null, audioTime: latestTime, turnOpen: false, retired: false };
+        next = slot;
+        try {
+            slot.session = await openSession(slot);
+        } catch (error) {
+            console.error("Could not open the next live session:", error);
+            if (next === slot) next = null;
+            if (closed) return;
+            if (active) {
+                callbacks.onStateChange('connected');
+                scheduleRotation(ROTATION_RETRY_MS);
+            } else {
+                reconnect();
+            }
+            return;
+        }
+        if (closed) {
+            closeSession(slot);
+            return;
+        }
+        if (slot.retired) return;
+        if (!active?.turnOpen) {
+            switchToNext();
+        } else {
+            switchTimer = window.setTimeout(switchToNext, TURN_BOUNDARY_WAIT_MS);
+        }
+    };
+
+    const handleLost = (slot: SessionSlot, error: unknown) => {
+        if (closed) return;
+        if (slot === holdingFor) releaseHeld();
+        if (slot.retired) return;
+        slot.retired = true;
+        console.error('Live session lost:', error);
+        closeSession(slot);
+        if (slot === next) {
+            next = null;
+            window.clearTimeout(switchTimer);
+            if (active) {
+                callbacks.onStateChange('connected');
+                scheduleRotation(ROTATION_RETRY_MS);
+            }
+            return;
+        }
+        if (slot !== active) return;
+        active = null;
+        stopCatchUp();
+        // Whatever the lost session heard of the turn in progress ends there
+        if (slot.turnOpen) callbacks.onTurnComplete(slot.audioTime);
+        if (next?.session) {
+            switchToNext();
+        } else if (next) {
+            // The replacement being opened takes over when it connects
+            callbacks.onStateChange('reconnecting');
+        } else {
+            reconnect();
+        }
+    };
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        window.clearTimeout(rotateTimer);
+        window.clearTimeout(switchTimer);
+        stopCatchUp();
+        for (const slot of [active, next, ...draining]) {
+            if (slot) closeSession(slot);
+        }
+        active = null;
+        next = null;
+        draining.clear();
+        holdingFor = null;
+        held.length = 0;
+        backlog.length = 0;
+    };
+
+    callbacks.onStateChange('connecting');
+    const first: SessionSlot = { session: null, audioTime: 0, turnOpen: false, retired: false };
+    openSession(first).then((session) => {
+        first.session = session;
+        if (closed) {
+            closeSession(first);
+        } else if (first.retired) {
+            reconnect();
+        } else {
+            activate(first);
+        }
+    }).catch((error) => {
+        // The first connection is not retried: a wrong key or model would only fail again
+        if (!closed) fail(error);
+    });
+
+    return {
+        sendAudio: (chunk) => {
+            if (closed) return;
+            latestTime = chunk.endTime;
+            if (active?.session && backlog.length === 0) {
+                if (send(active, chunk)) return;
+            }
+            backlog.push(chunk);
+            backlogDuration += chunk.duration;
+            while (backlogDuration > MAX_BUFFERED_MS && backlog.length > 1) {
+                backlogDuration -= backlog.shift()!.duration;
+            }
+        },
+        endAudioStream: () => {
+            try {
+                active?.session?.endAudioStream();
+            } catch (e) {
+                console.error("Error ending the audio stream:", e);
+            }
+        },
+        close,
+    };
+};
@@ -0,0 +1,170 @@
+import { LocalServerConfig, TranscriptionProvider, TranscriptionSegment, WordTiming } from '../types.ts';
+import { buildSegmentTranslationPrompt, buildTextsTranslationPrompt } from './prompts.ts';
+import { parseRetryAfterHeader } from '../utils/requestScheduler.ts';
+import { normalizeLanguageCode, toPrimaryLanguage } from '../utils/languages.ts';
+import { getWavDurationMs } from '../utils/audio.ts';
+
+const SPEECH_SAMPLE_RATE = 24000; // OpenAI-compatible `pcm` speech output is 24kHz mono
+
+// Carries the HTTP status and Retry-After hint so that failed requests can be retried sensibly
+class HttpError extends Error {
+    constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+// Chat models without structured output sometimes wrap JSON in a markdown fence
+const parseJsonArray = (content: string): any[] => {
+    const match = content.match(/\[[\s\S]*\]/);
+    if (!match) {
+        throw new Error('The server did not return a JSON array.');
+    }
+    return JSON.parse(match[0]);
+};
+
+// OpenAI-style servers return `{ word, start, end }` in seconds
+const toWordTimings = (words: any[]): WordTiming[] =>
+    words
+        .filter((w: any) => typeof w.word === 'string' && w.word.trim())
+        .map((w: any) => ({ text: w.word.trim(), startTime: Math.round(w.start * 1000), endTime: Math.round(w.end * 1000) }));
+
+/**
+ * Creates a provider that talks to a self-hosted HTTP server.
+ * Transcription uses either the OpenAI `/v1/audio/transcriptions` route or the whisper.cpp `/inference` route;
+ * translation and speech use the OpenAI chat completions and speech routes.
+ */
+export const createLocalProvider = (config: LocalServerConfig): TranscriptionProvider => {
+    const baseUrl = config.baseUrl.trim().replace(/\/+$/, '');
+    const authHeaders: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+    const request = async (path: string, init: RequestInit): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            ...init,
+            headers: { ...authHeaders, ...init.headers },
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new HttpError(
+                `Server responded with ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+                response.status,
+                parseRetryAfterHeader(response.headers.get('Retry-After'))
+            );
+        }
+        return response;
+    };
+
+    const chat = async (prompt: string): Promise<string> => {
+        const response = await request('/v1/chat/completions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: config.translationModel,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0.2,
+            }),
+        });
+        const json = await response.json();
+        const content = json.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error('No completion text received from server.');
+        }
+        return content;
+    };
+
+    return {
+        id: 'local',
+        supportsLive: false,
+        supportsSpeech: config.apiStyle === 'openai',
+        supportsDiarization: false,
+
+        transcribe: async ({ mimeType, data }, options = {}) => {
+            const extension = mimeType.split('/')[1]?.split(';')[0] || 'wav';
+            const form = new FormData();
+            form.append('file', new Blob([data], { type: mimeType }), `audio.${extension}`);
+            form.append('response_format', 'verbose_json');
+
+            let path: string;
+            if (config.apiStyle === 'whisper.cpp') {
+                path = '/inference';
+                form.append('temperature', '0.0');
+                // whisper.cpp assumes English unless told to detect
+                form.append('language', options.language ? toPrimaryLanguage(options.language) : 'auto');
+            } else {
+                path = '/v1/audio/transcriptions';
+                form.append('model', config.transcriptionModel);
+                form.append('timestamp_granularities[]', 'segment');
+                if (options.wordTimestamps) {
+                    form.append('timestamp_granularities[]', 'word');
+                }
+                if (options.language) {
+                    form.append('language', toPrimaryLanguage(options.language));
+                }
+            }
+
+            const response = await request(path, { method: 'POST', body: form });
+            const json = await response.json();
+            // verbose_json reports the detected language by name ("persian"), some servers by code
+            const detected = !options.language && typeof json.language === 'string' ? normalizeLanguageCode(json.language) : undefined;
+            const language = detected ? { language: detected } : {};
+
+            if (!Array.isArray(json.segments)) {
+                // Servers that ignore verbose_json only return the plain text, which then spans the whole audio
+                const text = (json.text || '').trim();
+                if (!text) return { segments: [], ...language };
+                const durationMs = typeof json.duration === 'number' ? Math.round(json.duration * 1000) : getWavDurationMs(data);
+                if (!durationMs) {
+                    throw new Error('The server returned text without timestamps. Subtitles need timestamps; make sure it supports verbose_json responses.');
+                }
+                return { segments: [{ text, startTime: 0, endTime: durationMs }], ...language };
+            }
+            // whisper.cpp nests words in each segment; the OpenAI route returns one flat list for the whole file
+            const allWords = options.wordTimestamps && Array.isArray(json.words) ? toWordTimings(json.words) : [];
+            return {
+                segments: json.segments
+                    .filter((s: any) => typeof s.text === 'string' && s.text.trim())
+                    .map((s: any): TranscriptionSegment => {
+                        const startTime = Math.round(s.start * 1000);
+                        const endTime = Math.round(s.end * 1000);
+                        const words = !options.wordTimestamps ? []
+                            : Array.isArray(s.words) ? toWordTimings(s.words)
+                            : allWords.filter(w => w.startTime >= startTime && w.startTime < endTime);
+                        return { text: s.text.trim(), startTime, endTime, ...(words.length > 0 ? { words } : {}) };
+                    }),
+                ...language,
+            };
+        },
+
+        translateSegments: async (segments, languageName, options) => {
+            return parseJsonArray(await chat(buildSegmentTranslationPrompt(segments, languageName, options)));
+        },
+
+        translateTexts: async (texts, languageName, options) => {
+            return parseJsonArray(await chat(buildTextsTranslationPrompt(texts, languageName, options)));
+        },
+
+        synthesize: async (text, options = {}) => {
+            if (config.apiStyle !== 'openai') {
+                throw new Error('Speech synthesis requires an OpenAI-compatible server.');
+            }
+            const response = await request('/v1/audio/speech', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: config.speechModel,
+                    voice: options.voice || config.speechVoice,
+                    input: text,
+                    response_format: 'pcm',
+                    ...(options.rate && options.rate !== 1 ? { speed: options.rate } : {}),
+                    // Only models that take instructions (e.g. gpt-4o-mini-tts) use this
+                    ...(options.style?.trim() ? { instructions: options.style.trim() } : {}),
+                }),
+            });
+            return { data: new Uint8Array(await response.arrayBuffer()), sampleRate: SPEECH_SAMPLE_RATE, numChannels: 1 };
+        },
+
+        connectLive: async () => {
+            throw new Error('Live transcription is not supported by the local server provider.');
+        },
+    };
+};
@@ -0,0 +1,90 @@
+import { Project, ProjectSummary } from '../types.ts';
+
+const DB_NAME = 'audio-scribe';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+                    db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                databasePromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return databasePromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(PROJECT_STORE, mode);
+        const request = operation(transaction.objectStore(PROJECT_STORE));
+        // Resolve on commit so that a write is durable before the caller moves on
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+const summarize = (project: Project): ProjectSummary => ({
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    mediaName: project.media?.name,
+    sizeBytes: (project.media?.size || 0) + JSON.stringify([project.segments, project.translations]).length,
+    segmentCount: project.segments.length,
+    languages: Object.keys(project.translations),
+});
+
+export const createProjectId = (): string => crypto.randomUUID();
+
+// Most recently updated first
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const projects = await runRequest<Project[]>('readonly', store => store.getAll());
+    return projects.map(summarize).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string): Promise<Project | undefined> =>
+    runRequest<Project | undefined>('readonly', store => store.get(id));
+
+export const saveProject = async (project: Project): Promise<void> => {
+    await runRequest('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await runRequest('readwrite', store => store.delete(id));
+};
+
+// Deletes every project not updated since `cutoff` (a timestamp), except `keepId`. Returns how many were removed.
+export const deleteProjectsUpdatedBefore = async (cutoff: number, keepId?: string | null): Promise<number> => {
+    const stale = (await listProjects()).filter(p => p.updatedAt < cutoff && p.id !== keepId);
+    for (const project of stale) {
+        await deleteProject(project.id);
+    }
+    return stale.length;
+};
+
+export const getStorageUsage = async (): Promise<{ usage: number; quota: number } | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
+
+// Asks the browser not to evict saved projects under storage pressure; the browser may decline
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
@@ -0,0 +1,114 @@
+import { GlossaryEntry, SpeechOptions, TranscriptionOptions, TranscriptionSegment, TranslationOptions } from '../types.ts';
+import { getLanguageName } from '../utils/languages.ts';
+import { findSentenceSpans } from '../utils/subtitleBatches.ts';
+
+// Prompt templates shared by every provider so that they all produce the same JSON shapes.
+
+const TRANSCRIBE_PROMPT = `Transcribe this audio file accurately. The output must be a valid JSON array of objects. Each object represents a sentence and must have "startTime", "endTime" (in seconds with 3 decimal places), and "text". Example: [{"startTime": 0.512, "endTime": 2.123, "text": "This is the first sentence."}]`;
+
+const DIARIZE_PROMPT = `Transcribe this audio file accurately and identify who is speaking. The output must be a valid JSON object with two properties:
+- "segments": an array of objects, one per sentence, each with "startTime", "endTime" (in seconds with 3 decimal places), "speaker" and "text". A sentence must never mix two speakers.
+- "speakers": an array with one object per speaker heard in this audio, each with "label" and a short "description" of the voice (e.g. pitch, accent, speaking style, name if mentioned) so the speaker can be recognised later.
+Label speakers "Speaker 1", "Speaker 2", ... in order of first appearance.
+Example: {"segments": [{"startTime": 0.512, "endTime": 2.123, "speaker": "Speaker 1", "text": "This is the first sentence."}], "speakers": [{"label": "Speaker 1", "description": "Low male voice, British accent"}]}`;
+
+const DETECT_LANGUAGE_PROMPT = `Transcribe this audio file accurately and identify its language. The output must be a valid JSON object with two properties:
+- "language": the ISO 639-1 code of the language spoken most in this audio (e.g. "en", "fa").
+- "segments": an array of objects, one per sentence, each with "startTime", "endTime" (in seconds with 3 decimal places), and "text".
+Example: {"language": "en", "segments": [{"startTime": 0.512, "endTime": 2.123, "text": "This is the first sentence."}]}`;
+
+const DIARIZE_LANGUAGE_PROMPT = `The JSON object must also have "language": the ISO 639-1 code of the language spoken most in this audio (e.g. "en", "fa").`;
+
+// Mixed-language speech otherwise tends to come back transliterated or translated into the main language
+const SCRIPT_PROMPT = `Write every word in the script of the language it is spoken in (e.g. Persian in Persian script, English in Latin script). Never transliterate or translate: words from another language mixed into a sentence keep that language's own script.`;
+
+const WORD_TIMESTAMPS_PROMPT = `Each sentence object must also have "words": an array with one object per spoken word, in order, each with "text", "startTime" and "endTime" (in seconds with 3 decimal places, on the same clock as the sentence).`;
+
+/**
+ * This audio is usually one chunk of a longer recording, so earlier speakers and text are passed along.
+ * Without a source language the model reports the one it hears, which wraps a plain transcript in an object.
+ */
+export const buildTranscribePrompt = (options: TranscriptionOptions = {}): string => {
+    const base = options.diarize ? DIARIZE_PROMPT : options.language ? TRANSCRIBE_PROMPT : DETECT_LANGUAGE_PROMPT;
+    let prompt = options.wordTimestamps ? `${base}\n${WORD_TIMESTAMPS_PROMPT}` : base;
+    if (options.diarize && !options.language) {
+        prompt += `\n${DIARIZE_LANGUAGE_PROMPT}`;
+    }
+    prompt += options.language
+        ? `\n\nThe audio is mainly in ${getLanguageName(options.language)}; transcribe it as spoken, do not translate it. ${SCRIPT_PROMPT}`
+        : `\n\n${SCRIPT_PROMPT}`;
+    if (!options.diarize) {
+        return prompt;
+    }
+    if (options.knownSpeakers && options.knownSpeakers.length > 0) {
+        prompt += `\n\nThis audio continues an earlier recording. Speakers already identified (reuse these exact labels when the same voice speaks, and number any new voice after them):\n${options.knownSpeakers.map(s => `- ${s.label}: ${s.description}`).join('\n')}`;
+    }
+    if (options.previousText) {
+        prompt += `\n\nThe transcript so far ends with:\n${options.previousText}`;
+    }
+    return prompt;
+};
+
+// Terminology the translation must follow, or nothing when there is no glossary
+const buildGlossaryInstructions = (glossary: GlossaryEntry[] = []): string => {
+    if (glossary.length === 0) return '';
+    const rules = glossary.map(e => e.doNotTranslate
+        ? `- "${e.source}": do not translate, keep exactly as written`
+        : `- "${e.source}" must be translated as "${e.target}"`);
+    return `Follow this glossary whenever a term occurs (matching is case-insensitive):\n${rules.join('\n')}\n`;
+};
+
+// "from Persian " when the source language is known, so mixed-language text is read the right way
+const describeSource = (options: TranslationOptions): string => options.sourceLanguage ? `from ${options.sourceLanguage} ` : '';
+
+// The brief and the neighbouring dialogue, which inform the translation but are not part of it
+const buildContextInstructions = (options: TranslationOptions): string => {
+    let context = '';
+    if (options.brief?.trim()) {
+        context += `Background on the material, to keep names, genders, forms of address and running jokes consistent:\n${options.brief.trim()}\n`;
+    }
+    if (options.previousTexts && options.previousTexts.length > 0) {
+        context += `The dialogue just before the input, for context only (do not translate or return it):\n${JSON.stringify(options.previousTexts)}\n`;
+    }
+    if (options.nextTexts && options.nextTexts.length > 0) {
+        context += `The dialogue just after the input, for context only (do not translate or return it):\n${JSON.stringify(options.nextTexts)}\n`;
+    }
+    return context;
+};
+
+// Sentences that run over several items are translated whole and then shared out again
+const buildSentenceSpanInstructions = (texts: string[]): string => {
+    const spans = findSentenceSpans(texts);
+    if (spans.length === 0) return '';
+    const list = spans.map(({ start, end }) => `${start + 1}-${end}`).join(', ');
+    return `These items continue each other and form one sentence (positions counted from 1): ${list}. Translate each such sentence as a whole, then divide the translation over the same number of items at natural break points, keeping each part close to what its original item says. Never merge them into one item or leave a part empty.\n`;
+};
+
+export const buildSegmentTranslationPrompt = (segments: TranscriptionSegment[], languageName: string, options: TranslationOptions = {}): string =>
+`Translate the "text" value in each object of the following JSON array ${describeSource(options)}to ${languageName}.
+Return a valid JSON array with the exact same structure and objects, including the same "startTime" and "endTime" values, but with the "text" values translated.
+The number of objects in the output array must match the number of objects in the input array.
+${buildGlossaryInstructions(options.glossary)}${buildSentenceSpanInstructions(segments.map(s => s.text))}${buildContextInstructions(options)}
+Input:
+${JSON.stringify(segments.map(({ words, ...segment }) => segment))}
+`;
+
+export const buildTextsTranslationPrompt = (texts: string[], languageName: string, options: TranslationOptions = {}): string =>
+`Translate each string in the following JSON array ${describeSource(options)}to ${languageName}.
+Return a valid JSON array containing only the translated strings, in the exact same order as the input. The number of strings in your output array must be exactly ${texts.length}.
+Keep any placeholders of the form {1}, {2}, ... exactly as written, next to the words they belong to.
+${buildGlossaryInstructions(options.glossary)}${buildSentenceSpanInstructions(texts)}${buildContextInstructions(options)}
+Input:
+${JSON.stringify(texts)}
+`;
+
+// Gemini TTS has no speed parameter; pace and style are asked for in words before the text
+const describePace = (rate: number): string =>
+    rate <= 0.8 ? 'slowly' : rate < 0.95 ? 'a little slowly' : rate >= 1.25 ? 'quickly' : rate > 1.05 ? 'a little quickly' : '';
+
+// "In a calm voice, speak slowly: <text>", or the text alone when nothing is asked for
+export const buildSpeechPrompt = (text: string, options: SpeechOptions = {}): string => {
+    const pace = describePace(options.rate ?? 1);
+    const instructions = [options.style?.trim().replace(/[.:;,]+$/, ''), pace && `speak ${pace}`].filter(Boolean).join(', ');
+    return instructions ? `${instructions.charAt(0).toUpperCase()}${instructions.slice(1)}: ${text}` : text;
+};
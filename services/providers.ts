@@ -0,0 +1,19 @@
+import { LocalServerConfig, ProviderId, TranscriptionProvider } from '../types.ts';
+import { createGeminiProvider } from './geminiProvider.ts';
+import { createLocalProvider } from './localProvider.ts';
+
+export interface ProviderSettings {
+    apiKey: string;
+    geminiModel: string;
+    localServer: LocalServerConfig;
+}
+
+export const createProvider = (id: ProviderId, settings: ProviderSettings): TranscriptionProvider => {
+    switch (id) {
+        case 'local':
+            return createLocalProvider(settings.localServer);
+        case 'gemini':
+        default:
+            return createGeminiProvider(settings.apiKey, settings.geminiModel);
+    }
+};
@@ -11,3 +11,210 @@ export enum AppStatus {
   FINISHED,
   ERROR,
 }
+
+// Timing of a single word inside a segment
+export interface WordTiming {
+  text: string;
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+}
+
+// A timed transcription segment
+export interface TranscriptionSegment {
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  text: string;
+  speaker?: string; // Speaker label assigned during transcription, e.g. "Speaker 1"
+  words?: WordTiming[]; // Present when word-level timestamps were requested
+  stale?: boolean; // Translated segment whose source was edited after it was translated
+}
+
+// A speaker recognised during diarization, with a voice description used to keep labels consistent across chunks
+export interface SpeakerProfile {
+  label: string;
+  description: string;
+}
+
+export interface TranscriptionOptions {
+  diarize?: boolean;
+  wordTimestamps?: boolean;
+  knownSpeakers?: SpeakerProfile[];
+  previousText?: string; // Tail of the transcript so far, for continuity across chunks
+  language?: string; // Code of the spoken language; detected by the provider when absent
+}
+
+export interface TranscriptionResult {
+  segments: TranscriptionSegment[];
+  speakers?: SpeakerProfile[];
+  language?: string; // Detected language code, when none was requested and the provider reports one
+}
+
+export type ProviderId = 'gemini' | 'local';
+
+// Connection settings for a self-hosted, OpenAI-compatible or whisper.cpp server
+export interface LocalServerConfig {
+  baseUrl: string;
+  apiKey: string;
+  apiStyle: 'openai' | 'whisper.cpp';
+  transcriptionModel: string;
+  translationModel: string;
+  speechModel: string;
+  speechVoice: string;
+}
+
+export interface SpeechOptions {
+  voice?: string; // Backend voice name; the backend's default when absent
+  rate?: number; // 1 is the normal pace
+  style?: string; // Free-form delivery instructions, e.g. "calm and friendly"
+}
+
+// Raw 16-bit PCM audio returned by a speech synthesis backend
+export interface SynthesizedAudio {
+  data: Uint8Array;
+  sampleRate: number;
+  numChannels: number;
+}
+
+export interface LiveSessionCallbacks {
+  onTranscription: (text: string) => void;
+  onTurnComplete: () => void;
+  onGoAway?: () => void; // The server will close the connection soon
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface LiveSession {
+  sendAudio: (pcm: { data: string; mimeType: string }) => void;
+  endAudioStream: () => void; // No audio follows for now, so the turn in progress is finished; sending audio reopens the stream
+  close: () => void;
+}
+
+// A terminology rule enforced when translating
+export interface GlossaryEntry {
+  source: string;
+  target: string; // Required translation; unused for do-not-translate terms
+  language?: string; // Target language code the rule is limited to; any language when absent
+  doNotTranslate?: boolean; // Keep the source term exactly as written
+}
+
+export interface TranslationOptions {
+  glossary?: GlossaryEntry[]; // Already narrowed to the target language
+  sourceLanguage?: string; // Name of the language translated from; left to the model when absent
+  brief?: string; // Free-text synopsis or character list to translate in the spirit of
+  previousTexts?: string[]; // Dialogue just before the texts, for context only
+  nextTexts?: string[]; // Dialogue just after the texts, for context only
+}
+
+/**
+ * A backend able to transcribe, translate and speak.
+ * Segment timings returned by `transcribe` are relative to the start of the supplied audio.
+ */
+export interface TranscriptionProvider {
+  id: ProviderId;
+  supportsLive: boolean;
+  supportsSpeech: boolean;
+  supportsDiarization: boolean;
+  transcribe: (audio: { mimeType: string; data: ArrayBuffer }, options?: TranscriptionOptions) => Promise<TranscriptionResult>;
+  translateSegments: (segments: TranscriptionSegment[], languageName: string, options?: TranslationOptions) => Promise<TranscriptionSegment[]>;
+  translateTexts: (texts: string[], languageName: string, options?: TranslationOptions) => Promise<string[]>;
+  synthesize: (text: string, options?: SpeechOptions) => Promise<SynthesizedAudio>;
+  connectLive: (callbacks: LiveSessionCallbacks) => Promise<LiveSession>;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+// A cue parsed from an imported subtitle file
+export interface SubtitleCue {
+  index: number;
+  identifier?: string; // WebVTT cue identifier, kept verbatim
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  settings?: string; // Anything after the end timestamp, e.g. WebVTT cue settings
+  leadingBlocks?: string[]; // Raw WebVTT NOTE/STYLE/REGION blocks or ASS Comment lines that appeared right before this cue
+  eventFields?: Record<string, string>; // ASS Dialogue fields other than Start, End and Text, keyed by [Events] Format name
+  text: string;
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  header: string; // WebVTT signature and STYLE/REGION/NOTE blocks, or ASS sections, before the first cue
+  cues: SubtitleCue[];
+  footer: string; // Blocks that appeared after the last cue
+  eventFormat?: string[]; // ASS [Events] Format column names
+}
+
+// Limits a subtitle file must respect to be readable, as broadcasters' style guides set them
+export interface SubtitleRules {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxCharsPerSecond: number; // Reading speed, counting spaces and punctuation but not line breaks
+  minDurationMs: number;
+  maxDurationMs: number;
+  minGapMs: number; // Between one subtitle's end and the next one's start
+}
+
+// A SubStation Alpha style; colours are CSS hex strings (#RRGGBB) and converted on export
+export interface AssStyle {
+  name: string;
+  fontName: string;
+  fontSize: number;
+  primaryColor: string;
+  outlineColor: string;
+  backColor: string;
+  bold: boolean;
+  italic: boolean;
+  outline: number;
+  shadow: number;
+  alignment: number; // Numpad layout: 1-3 bottom, 4-6 middle, 7-9 top
+  marginL: number;
+  marginR: number;
+  marginV: number;
+}
+
+// One fixed-length slice of an uploaded file and what came back for it
+export interface ChunkCheckpoint {
+  index: number;
+  offsetSeconds: number;
+  durationSeconds: number; // Includes the overlap shared with the next chunk
+  status: 'pending' | 'done' | 'failed';
+  segments?: TranscriptionSegment[]; // Absolute times, present once done
+  speakers?: SpeakerProfile[];
+  language?: string; // Detected language code
+  error?: string; // Last failure message
+}
+
+// Chunk plan for a file, checkpointed after every chunk so that an interrupted run can resume
+export interface TranscriptionJob {
+  totalDurationSeconds: number;
+  overlapSeconds: number; // Each window runs this far into the next chunk
+  language?: string; // Source language chosen for every chunk; detected per chunk when absent
+  chunks: ChunkCheckpoint[];
+}
+
+// A transcription run saved in the browser so it survives reloads
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  media?: File; // Source audio, kept for playback and re-processing
+  segments: TranscriptionSegment[];
+  translations: Record<string, TranscriptionSegment[]>; // Keyed by language code
+  speakerNames: Record<string, string>;
+  job?: TranscriptionJob; // Only for uploaded files
+  glossary?: GlossaryEntry[]; // Project terms, applied on top of the global glossary
+  providerId: ProviderId;
+  model: string;
+}
+
+// What the history list shows without holding every transcript in memory
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  mediaName?: string;
+  sizeBytes: number; // Approximate: media size plus serialized transcript
+  segmentCount: number;
+  languages: string[];
+}
@@ -0,0 +1,233 @@
+import { AssStyle, SubtitleCue, SubtitleDocument, TranscriptionSegment } from '../types.ts';
+import { getCueWordLines } from './words.ts';
+
+const STYLE_FORMAT = 'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+const DEFAULT_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+// Formats milliseconds into ASS timestamp format H:MM:SS.cc
+export const formatAssTime = (ms: number): string => {
+  const totalCs = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000).toString().padStart(2, '0');
+  const seconds = Math.floor((totalCs % 6000) / 100).toString().padStart(2, '0');
+  const centiseconds = (totalCs % 100).toString().padStart(2, '0');
+  return `${hours}:${minutes}:${seconds}.${centiseconds}`;
+};
+
+const parseAssTime = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})\.(\d{1,3})$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return parseInt(hours, 10) * 3600000 + parseInt(minutes, 10) * 60000 + parseInt(seconds, 10) * 1000 + parseInt(fraction.padEnd(3, '0'), 10);
+};
+
+// Converts #RRGGBB to the ASS &HAABBGGRR notation
+export const toAssColor = (hex: string, alpha: number = 0): string => {
+  const value = hex.replace('#', '').padEnd(6, '0');
+  const [r, g, b] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)];
+  return `&H${alpha.toString(16).padStart(2, '0')}${b}${g}${r}`.toUpperCase();
+};
+
+const formatStyleLine = (style: AssStyle): string => [
+  `Style: ${style.name.replace(/,/g, ' ')}`,
+  style.fontName.replace(/,/g, ' '),
+  style.fontSize,
+  toAssColor(style.primaryColor),
+  toAssColor('#FF0000'),
+  toAssColor(style.outlineColor),
+  toAssColor(style.backColor, 0x80),
+  style.bold ? -1 : 0,
+  style.italic ? -1 : 0,
+  0, 0, 100, 100, 0, 0, 1,
+  style.outline,
+  style.shadow,
+  style.alignment,
+  style.marginL,
+  style.marginR,
+  style.marginV,
+  1,
+].join(',');
+
+// Plain text newlines become ASS hard line breaks
+const toAssText = (text: string): string => text.replace(/\r?\n/g, '\\N');
+
+const buildHeader = (style: AssStyle, title: string): string => [
+  '[Script Info]',
+  '; Script generated by Audio Scribe & Translate',
+  `Title: ${title}`,
+  'ScriptType: v4.00+',
+  'WrapStyle: 0',
+  'ScaledBorderAndShadow: yes',
+  'PlayResX: 1920',
+  'PlayResY: 1080',
+  '',
+  '[V4+ Styles]',
+  `Format: ${STYLE_FORMAT}`,
+  formatStyleLine(style),
+  '',
+  '[Events]',
+  `Format: ${DEFAULT_EVENT_FORMAT.join(', ')}`,
+].join('\n');
+
+const formatDialogue = (startTime: number, endTime: number, text: string, styleName: string, speaker: string = ''): string =>
+  `Dialogue: 0,${formatAssTime(startTime)},${formatAssTime(endTime)},${styleName.replace(/,/g, ' ')},${speaker.replace(/,/g, ' ')},0,0,0,,${toAssText(text)}`;
+
+/**
+ * Dialogue text with a {\kNN} tag (duration in centiseconds) before every word. Each word lasts until
+ * the next one starts, and any silence before the first word becomes an empty leading syllable.
+ * Line breaks in the segment text are kept as \N.
+ */
+const toAssKaraokeText = (segment: TranscriptionSegment): string => {
+  const lines = getCueWordLines(segment);
+  if (lines.length === 0) return segment.text;
+  const words = lines.flat();
+  const toCs = (ms: number) => Math.max(0, Math.round(ms / 10));
+  const lead = toCs(words[0].startTime - segment.startTime);
+  let next = 0;
+  const text = lines.map(line => line.map(word => {
+    const end = words[++next]?.startTime ?? segment.endTime;
+    return `{\\k${toCs(end - word.startTime)}}${word.text}`;
+  }).join(' ')).join('\\N');
+  return (lead > 0 ? `{\\k${lead}}` : '') + text;
+};
+
+// Speakers go into the Dialogue Name (actor) field
+export const segmentsToAss = (
+  segments: TranscriptionSegment[],
+  style: AssStyle,
+  title: string,
+  options: { wordTimings?: boolean } = {}
+): string =>
+  [
+    buildHeader(style, title),
+    ...segments.map(s => formatDialogue(s.startTime, s.endTime, options.wordTimings ? toAssKaraokeText(s) : s.text, style.name, s.speaker)),
+  ].join('\n') + '\n';
+
+/**
+ * Parses an ASS/SSA script. Everything before the first Dialogue line (Script Info, styles, the Events
+ * Format line) is kept verbatim as the header, and each Dialogue keeps its other fields so that only
+ * the text changes when the script is written back.
+ */
+export const parseAss = (content: string): SubtitleDocument => {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trimEnd().split('\n');
+  let eventFormat: string[] = DEFAULT_EVENT_FORMAT;
+  let section = '';
+  const headerLines: string[] = [];
+  const cues: SubtitleCue[] = [];
+  let pendingLines: string[] = [];
+
+  for (const line of lines) {
+    const sectionMatch = line.trim().match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+    }
+
+    if (section === 'events' && /^Format:/i.test(line)) {
+      eventFormat = line.slice(line.indexOf(':') + 1).split(',').map(f => f.trim());
+    }
+
+    const dialogueMatch = section === 'events' ? line.match(/^Dialogue:\s?(.*)$/) : null;
+    if (!dialogueMatch) {
+      (cues.length === 0 ? headerLines : pendingLines).push(line);
+      continue;
+    }
+
+    // The Text column is always last and may itself contain commas
+    const values = dialogueMatch[1].split(',');
+    const fieldValues = [...values.slice(0, eventFormat.length - 1), values.slice(eventFormat.length - 1).join(',')];
+    const fields: Record<string, string> = {};
+    eventFormat.forEach((name, i) => { fields[name] = fieldValues[i] ?? ''; });
+
+    const startTime = parseAssTime(fields.Start || '');
+    const endTime = parseAssTime(fields.End || '');
+    if (startTime === null || endTime === null) {
+      pendingLines.push(line);
+      continue;
+    }
+
+    const { Start, End, Text, ...eventFields } = fields;
+    cues.push({
+      index: cues.length + 1,
+      startTime,
+      endTime,
+      eventFields,
+      ...(pendingLines.length > 0 ? { leadingBlocks: pendingLines } : {}),
+      text: Text,
+    });
+    pendingLines = [];
+  }
+
+  if (!headerLines.some(line => /^\[Script Info\]/i.test(line.trim()))) {
+    throw new Error('Missing [Script Info] section.');
+  }
+
+  return { format: 'ass', header: headerLines.join('\n'), cues, footer: pendingLines.join('\n'), eventFormat };
+};
+
+/**
+ * Serializes a subtitle document as ASS. Documents imported from ASS keep their header, styles and
+ * Dialogue fields; other formats are written with the given style.
+ */
+export const buildAssFile = (document: SubtitleDocument, texts: string[], style: AssStyle, title: string): string => {
+  if (document.format !== 'ass') {
+    return [
+      buildHeader(style, title),
+      ...document.cues.map((cue, i) => formatDialogue(cue.startTime, cue.endTime, texts[i] || cue.text, style.name)),
+    ].join('\n') + '\n';
+  }
+
+  const eventFormat = document.eventFormat || DEFAULT_EVENT_FORMAT;
+  const lines = [document.header];
+  document.cues.forEach((cue, i) => {
+    if (cue.leadingBlocks) {
+      lines.push(...cue.leadingBlocks);
+    }
+    const fields: Record<string, string> = {
+      ...cue.eventFields,
+      Start: formatAssTime(cue.startTime),
+      End: formatAssTime(cue.endTime),
+      Text: texts[i] || cue.text,
+    };
+    lines.push(`Dialogue: ${eventFormat.map(name => fields[name] ?? '').join(',')}`);
+  });
+  if (document.footer) {
+    lines.push(document.footer);
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Strips override blocks and converts ASS line breaks, for writing Dialogue text to other formats
+export const assToPlainText = (text: string): string =>
+  text.replace(/\{[^}]*\}/g, '').replace(/\\N/gi, '\n').replace(/\\h/g, ' ');
+
+/**
+ * Prepares Dialogue text for translation: override blocks such as {\i1} or {\pos(10,20)} are replaced
+ * by numbered placeholders ({1}, {2}, ...) and \N breaks become newlines.
+ */
+export const extractAssText = (text: string): { plain: string; tags: string[] } => {
+  const tags: string[] = [];
+  const plain = text
+    .replace(/\{[^}]*\}/g, (tag) => {
+      tags.push(tag);
+      return `{${tags.length}}`;
+    })
+    .replace(/\\N/g, '\n');
+  return { plain, tags };
+};
+
+// Reverses extractAssText; placeholders the translation lost are restored at the start or end
+export const restoreAssText = (translated: string, tags: string[], original: string): string => {
+  const used = new Set<number>();
+  let text = toAssText(translated).replace(/\{(\d+)\}/g, (placeholder, n) => {
+    const index = parseInt(n, 10) - 1;
+    if (!tags[index] || used.has(index)) return placeholder;
+    used.add(index);
+    return tags[index];
+  });
+
+  const missing = tags.map((_, i) => i).filter(i => !used.has(i));
+  const leading = missing.filter(i => original.startsWith(tags.slice(0, i + 1).join('')));
+  const trailing = missing.filter(i => !leading.includes(i));
+  text = leading.map(i => tags[i]).join('') + text + trailing.map(i => tags[i]).join('');
+  return text;
+};
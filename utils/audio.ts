@@ -0,0 +1,153 @@
+// Base64 encoding function for audio data
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// Base64 decoding function for audio data
+export function decode(base64: string): Uint8Array {
+    const binaryString = atob(base64);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Decodes raw PCM audio data into an AudioBuffer for playback.
+ * The Gemini TTS model returns audio at a 24000Hz sample rate.
+ */
+export async function decodeAudioData(
+    data: Uint8Array,
+    ctx: BaseAudioContext,
+    sampleRate: number,
+    numChannels: number,
+): Promise<AudioBuffer> {
+    // A view on another buffer may start at an odd offset, which Int16Array cannot, and an odd trailing byte is dropped
+    const bytes = data.byteOffset % 2 === 0 ? data : data.slice();
+    const dataInt16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    const frameCount = Math.floor(dataInt16.length / numChannels);
+    const buffer = ctx.createBuffer(numChannels, Math.max(1, frameCount), sampleRate);
+
+    for (let channel = 0; channel < numChannels; channel++) {
+        const channelData = buffer.getChannelData(channel);
+        for (let i = 0; i < frameCount; i++) {
+            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+        }
+    }
+    return buffer;
+}
+
+
+/**
+ * Converts an AudioBuffer to a WAV audio format Blob.
+ * This is necessary for sending audio chunks to the API in a recognized format.
+ */
+export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
+    const numOfChan = buffer.numberOfChannels;
+    const length = buffer.length * numOfChan * 2 + 44;
+    const bufferArray = new ArrayBuffer(length);
+    const view = new DataView(bufferArray);
+    const channels: Float32Array[] = [];
+    let i: number, sample: number;
+    let offset = 0;
+    let pos = 0;
+
+    const setUint16 = (data: number) => {
+        view.setUint16(pos, data, true);
+        pos += 2;
+    };
+
+    const setUint32 = (data: number) => {
+        view.setUint32(pos, data, true);
+        pos += 4;
+    };
+
+    // Write WAVE header
+    setUint32(0x46464952); // "RIFF"
+    setUint32(length - 8); // file length - 8
+    setUint32(0x45564157); // "WAVE"
+
+    // Write fmt chunk
+    setUint32(0x20746d66); // "fmt "
+    setUint32(16); // chunk length
+    setUint16(1); // sample format (1 = PCM)
+    setUint16(numOfChan);
+    setUint32(buffer.sampleRate);
+    setUint32(buffer.sampleRate * 2 * numOfChan); // byte rate
+    setUint16(numOfChan * 2); // block align
+    setUint16(16); // bits per sample
+
+    // Write data chunk
+    setUint32(0x61746164); // "data"
+    setUint32(length - pos - 4);
+
+    // Get PCM samples
+    for (i = 0; i < buffer.numberOfChannels; i++) {
+        channels.push(buffer.getChannelData(i));
+    }
+
+    while (pos < length - 44) {
+        for (i = 0; i < numOfChan; i++) {
+            sample = Math.max(-1, Math.min(1, channels[i][offset])); // clamp
+            sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit
+            view.setInt16(pos, sample, true);
+            pos += 2;
+        }
+        offset++;
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+};
+
+// Length of WAV audio read from its header, or undefined when the data is not a WAV file
+export const getWavDurationMs = (data: ArrayBuffer): number | undefined => {
+    const view = new DataView(data);
+    if (data.byteLength < 44 || view.getUint32(0) !== 0x52494646 || view.getUint32(8) !== 0x57415645) return undefined; // "RIFF", "WAVE"
+    const byteRate = view.getUint32(28, true);
+    for (let offset = 12; offset + 8 <= data.byteLength && byteRate > 0;) {
+        const size = view.getUint32(offset + 4, true);
+        if (view.getUint32(offset) === 0x64617461) { // "data"
+            return Math.round((Math.min(size, data.byteLength - offset - 8) / byteRate) * 1000);
+        }
+        offset += 8 + size + (size % 2);
+    }
+    return undefined;
+};
+
+// Decodes a compressed audio file (mp3, wav, ...) with a throwaway AudioContext
+export const decodeAudioFile = async (data: ArrayBuffer): Promise<AudioBuffer> => {
+    const ctx = new ((window as any).AudioContext || (window as any).webkitAudioContext)();
+    try {
+        return await ctx.decodeAudioData(data);
+    } finally {
+        ctx.close();
+    }
+};
+
+// Copies `durationSeconds` of audio starting at `offsetSeconds` into a standalone WAV Blob
+export const sliceAudioBufferToWav = (buffer: AudioBuffer, offsetSeconds: number, durationSeconds: number): Blob => {
+    const frameOffset = Math.floor(offsetSeconds * buffer.sampleRate);
+    const frameCount = Math.max(1, Math.min(Math.floor(durationSeconds * buffer.sampleRate), buffer.length - frameOffset));
+    const slice = new AudioBuffer({ numberOfChannels: buffer.numberOfChannels, length: frameCount, sampleRate: buffer.sampleRate });
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        slice.getChannelData(channel).set(buffer.getChannelData(channel).subarray(frameOffset, frameOffset + frameCount));
+    }
+    return audioBufferToWav(slice);
+};
+
+// Mixes a decoded track down to mono at `sampleRate`, which is all speech recognition needs
+export const downmixAudioBuffer = async (buffer: AudioBuffer, sampleRate: number = 16000): Promise<AudioBuffer> => {
+    const ctx = new OfflineAudioContext(1, Math.max(1, Math.ceil(buffer.duration * sampleRate)), sampleRate);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start();
+    return ctx.startRendering();
+};
@@ -0,0 +1,164 @@
+import { AssStyle, TranscriptionSegment } from '../types.ts';
+import { findSegmentIndexAt } from './timeline.ts';
+
+// Renders subtitles onto the frames of a video in the browser, in real time, as a WebM recording
+
+// ASS styles are authored for the 1920x1080 script resolution used by the .ass export
+const ASS_PLAY_RES_X = 1920;
+const ASS_PLAY_RES_Y = 1080;
+const BURN_IN_FRAME_RATE = 30;
+const LINE_HEIGHT = 1.2;
+const RECORDER_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export interface BurnInOptions {
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+}
+
+// Greedy word wrap; explicit line breaks in the cue are kept
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+    text.split('\n').flatMap(paragraph => {
+        const lines: string[] = [];
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        return line ? [...lines, line] : lines;
+    });
+
+// Draws one cue the way the ASS style would place it: numpad alignment, margins, outline and shadow
+const drawCue = (ctx: CanvasRenderingContext2D, text: string, style: AssStyle) => {
+    const { width, height } = ctx.canvas;
+    const scaleX = width / ASS_PLAY_RES_X;
+    const scaleY = height / ASS_PLAY_RES_Y;
+    const fontSize = style.fontSize * scaleY;
+    ctx.font = `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${fontSize}px "${style.fontName}", sans-serif`;
+    ctx.textBaseline = 'bottom';
+
+    const marginL = style.marginL * scaleX;
+    const marginR = style.marginR * scaleX;
+    const marginV = style.marginV * scaleY;
+    const lines = wrapText(ctx, text, width - marginL - marginR);
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const blockHeight = lines.length * lineHeight;
+
+    const column = (style.alignment - 1) % 3; // 0 left, 1 centre, 2 right
+    const row = Math.floor((style.alignment - 1) / 3); // 0 bottom, 1 middle, 2 top
+    ctx.textAlign = column === 0 ? 'left' : column === 1 ? 'center' : 'right';
+    const x = column === 0 ? marginL : column === 1 ? width / 2 : width - marginR;
+    const top = row === 0 ? height - marginV - blockHeight : row === 1 ? (height - blockHeight) / 2 : marginV;
+
+    lines.forEach((line, i) => {
+        const y = top + (i + 1) * lineHeight;
+        if (style.shadow > 0) {
+            ctx.fillStyle = style.backColor;
+            ctx.fillText(line, x + style.shadow * scaleY, y + style.shadow * scaleY);
+        }
+        if (style.outline > 0) {
+            // The stroke is centred on the glyph edge, so it is twice the ASS outline width
+            ctx.lineWidth = style.outline * 2 * scaleY;
+            ctx.lineJoin = 'round';
+            ctx.strokeStyle = style.outlineColor;
+            ctx.strokeText(line, x, y);
+        }
+        ctx.fillStyle = style.primaryColor;
+        ctx.fillText(line, x, y);
+    });
+};
+
+const waitForEvent = (element: HTMLMediaElement, event: string): Promise<void> =>
+    new Promise((resolve, reject) => {
+        element.addEventListener(event, () => resolve(), { once: true });
+        element.addEventListener('error', () => reject(new Error('The video could not be played in this browser')), { once: true });
+    });
+
+/**
+ * Plays `video` once, silently, drawing each frame and the active cue onto a canvas that is
+ * recorded together with the original soundtrack. Takes as long as the video itself, and the tab
+ * has to stay in the foreground because hidden tabs throttle animation frames.
+ */
+export const burnInSubtitles = async (
+    video: File,
+    segments: TranscriptionSegment[],
+    style: AssStyle,
+    { onProgress, signal }: BurnInOptions = {}
+): Promise<Blob> => {
+    const url = URL.createObjectURL(video);
+    const element = document.createElement('video');
+    element.playsInline = true;
+    // Created before the first await so it starts inside the click that asked for the export
+    const audioContext = new ((window as any).AudioContext || (window as any).webkitAudioContext)();
+    let frame: number | null = null;
+
+    try {
+        const loaded = waitForEvent(element, 'loadedmetadata');
+        element.src = url;
+        await loaded;
+        if (!element.videoWidth || !element.videoHeight) {
+            throw new Error('The file has no video track to burn subtitles into');
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = element.videoWidth;
+        canvas.height = element.videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas rendering is not available');
+
+        // Routing the soundtrack into the recording only keeps it off the speakers
+        const audioDestination = audioContext.createMediaStreamDestination();
+        audioContext.createMediaElementSource(element).connect(audioDestination);
+        const stream = new MediaStream([
+            ...canvas.captureStream(BURN_IN_FRAME_RATE).getVideoTracks(),
+            ...audioDestination.stream.getAudioTracks(),
+        ]);
+        const mimeType = RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        const recorded: Blob[] = [];
+        recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) recorded.push(e.data);
+        };
+        const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+        const draw = () => {
+            ctx.drawImage(element, 0, 0, canvas.width, canvas.height);
+            const index = findSegmentIndexAt(segments, element.currentTime * 1000);
+            if (index >= 0) drawCue(ctx, segments[index].text, style);
+            onProgress?.(element.duration ? element.currentTime / element.duration : 0);
+            frame = requestAnimationFrame(draw);
+        };
+
+        const ended = waitForEvent(element, 'ended');
+        const aborted = new Promise<never>((_, reject) => {
+            if (signal?.aborted) reject(new DOMException('Burn-in cancelled', 'AbortError'));
+            signal?.addEventListener('abort', () => reject(new DOMException('Burn-in cancelled', 'AbortError')), { once: true });
+        });
+        // Whichever loses the race settles later, when nobody is listening any more
+        ended.catch(() => {});
+        aborted.catch(() => {});
+
+        recorder.start(1000);
+        try {
+            await element.play();
+            draw();
+            await Promise.race([ended, aborted]);
+        } finally {
+            if (frame !== null) cancelAnimationFrame(frame);
+            element.pause();
+            recorder.stop();
+            await stopped;
+        }
+        onProgress?.(1);
+        return new Blob(recorded, { type: recorder.mimeType || 'video/webm' });
+    } finally {
+        audioContext.close();
+        element.removeAttribute('src');
+        element.load();
+        URL.revokeObjectURL(url);
+    }
+};
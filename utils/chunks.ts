@@ -0,0 +1,69 @@
+import { ChunkCheckpoint, SpeakerProfile, TranscriptionJob, TranscriptionOptions } from '../types.ts';
+import { mergeSpeakerProfiles } from './speakers.ts';
+import { ChunkWindow } from './vad.ts';
+
+/**
+ * Plans fixed-length chunks covering the whole file; a short file is a single chunk. Each window
+ * is extended by `overlapSeconds` into the next chunk so words spoken across a cut are heard whole.
+ */
+export const createTranscriptionJob = (totalDurationSeconds: number, chunkDurationSeconds: number, overlapSeconds: number = 0): TranscriptionJob => {
+    // A remainder shorter than the overlap is already covered by the previous window
+    const count = Math.max(1, Math.ceil((totalDurationSeconds - overlapSeconds) / chunkDurationSeconds));
+    return {
+        totalDurationSeconds,
+        overlapSeconds,
+        chunks: Array.from({ length: count }, (_, index) => ({
+            index,
+            offsetSeconds: index * chunkDurationSeconds,
+            durationSeconds: Math.min(chunkDurationSeconds + overlapSeconds, totalDurationSeconds - index * chunkDurationSeconds),
+            status: 'pending',
+        })),
+    };
+};
+
+// Turns windows planned around pauses into a job; they never cut into speech, so they do not overlap
+export const createTranscriptionJobFromWindows = (totalDurationSeconds: number, windows: ChunkWindow[]): TranscriptionJob => ({
+    totalDurationSeconds,
+    overlapSeconds: 0,
+    chunks: windows.map((window, index) => ({ index, ...window, status: 'pending' })),
+});
+
+export const updateChunk = (job: TranscriptionJob, chunk: ChunkCheckpoint): TranscriptionJob => ({
+    ...job,
+    chunks: job.chunks.map(c => c.index === chunk.index ? chunk : c),
+});
+
+// Chunks still to transcribe, in order, starting from the first missing one
+export const getIncompleteChunkIndices = (job: TranscriptionJob): number[] =>
+    job.chunks.filter(c => c.status !== 'done').map(c => c.index);
+
+/**
+ * Context for transcribing chunk `index`: the job's source language, speakers found in every earlier
+ * finished chunk, and the tail of the chunk right before it when that one is finished.
+ */
+export const getChunkContext = (job: TranscriptionJob, index: number): TranscriptionOptions => {
+    const earlier = job.chunks.filter(c => c.index < index && c.status === 'done');
+    const knownSpeakers = earlier.reduce<SpeakerProfile[]>((known, c) => mergeSpeakerProfiles(known, c.speakers), []);
+    const previous = job.chunks[index - 1];
+    const previousText = previous?.status === 'done'
+        ? (previous.segments || []).slice(-3).map(s => s.speaker ? `${s.speaker}: ${s.text}` : s.text).join('\n')
+        : '';
+    return { knownSpeakers, previousText, ...(job.language ? { language: job.language } : {}) };
+};
+
+export interface DetectedLanguage {
+    code: string;
+    chunks: number[]; // Indices of the chunks detected in this language
+}
+
+// Languages detected across finished chunks, the one heard in the most chunks first
+export const getDetectedLanguages = (job: TranscriptionJob): DetectedLanguage[] => {
+    const detected: DetectedLanguage[] = [];
+    for (const chunk of job.chunks) {
+        if (chunk.status !== 'done' || !chunk.language) continue;
+        const entry = detected.find(d => d.code === chunk.language);
+        if (entry) entry.chunks.push(chunk.index);
+        else detected.push({ code: chunk.language, chunks: [chunk.index] });
+    }
+    return detected.sort((a, b) => b.chunks.length - a.chunks.length);
+};
@@ -0,0 +1,105 @@
+import { timeStretch } from './timeStretch.ts';
+
+// Assembles separately synthesized segments into one voice-over track that follows the subtitles' timing
+
+// Speech for one translated segment
+export interface DubbingClip {
+    index: number; // Position of the segment in the translation
+    startTime: number; // in milliseconds
+    endTime: number; // in milliseconds
+    audio: AudioBuffer;
+}
+
+export interface DubbingOptions {
+    fitToSegments?: boolean; // Speed up speech that is longer than its segment, up to MAX_SPEED_UP
+    original?: AudioBuffer; // Mixed underneath and lowered while the voice-over speaks
+}
+
+// Speech that still runs past the end of its segment, into the next one or the silence after it
+export interface DubbingOverrun {
+    index: number;
+    overrunMs: number;
+    speed: number; // 1 when the clip was not sped up
+}
+
+export interface DubbingTrack {
+    buffer: AudioBuffer;
+    overruns: DubbingOverrun[];
+}
+
+export const DUBBING_SAMPLE_RATE = 24000; // The rate TTS models return; enough for a rough voice-over
+const MAX_SPEED_UP = 1.35; // Faster than this, synthetic speech becomes hard to follow
+const OVERRUN_TOLERANCE_S = 0.05;
+const DUCK_GAIN = 0.2; // Level of the original while the voice-over speaks
+const DUCK_ATTACK_S = 0.15;
+const DUCK_RELEASE_S = 0.4;
+
+const stretchAudioBuffer = (buffer: AudioBuffer, speed: number): AudioBuffer => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => timeStretch(buffer.getChannelData(c), buffer.sampleRate, speed));
+    const stretched = new AudioBuffer({ numberOfChannels: buffer.numberOfChannels, length: Math.max(1, channels[0].length), sampleRate: buffer.sampleRate });
+    channels.forEach((data, c) => stretched.getChannelData(c).set(data));
+    return stretched;
+};
+
+// Lowers the original around every stretch of speech; clips closer together than a duck and release stay lowered between them
+const duckUnderSpeech = (gain: AudioParam, spans: { start: number; end: number }[]) => {
+    const merged: { start: number; end: number }[] = [];
+    for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && span.start - last.end < DUCK_ATTACK_S + DUCK_RELEASE_S) {
+            last.end = Math.max(last.end, span.end);
+        } else {
+            merged.push({ ...span });
+        }
+    }
+    gain.setValueAtTime(1, 0);
+    for (const { start, end } of merged) {
+        gain.setValueAtTime(1, Math.max(0, start - DUCK_ATTACK_S));
+        gain.linearRampToValueAtTime(DUCK_GAIN, Math.max(0, start));
+        gain.setValueAtTime(DUCK_GAIN, end);
+        gain.linearRampToValueAtTime(1, end + DUCK_RELEASE_S);
+    }
+};
+
+/**
+ * Places every clip at the start of its segment and renders the mix, mono at DUBBING_SAMPLE_RATE.
+ * Clips that do not fit their segment are sped up without changing pitch when `fitToSegments` is set;
+ * whatever still overruns is reported rather than cut, so no speech is lost.
+ */
+export const mixDubbingTrack = async (clips: DubbingClip[], { fitToSegments = true, original }: DubbingOptions = {}): Promise<DubbingTrack> => {
+    const overruns: DubbingOverrun[] = [];
+    const placed = clips.map(clip => {
+        const available = Math.max(0, (clip.endTime - clip.startTime) / 1000);
+        let audio = clip.audio;
+        let speed = 1;
+        if (fitToSegments && available > 0 && audio.duration > available + OVERRUN_TOLERANCE_S) {
+            speed = Math.min(MAX_SPEED_UP, audio.duration / available);
+            audio = stretchAudioBuffer(audio, speed);
+        }
+        const overrun = audio.duration - available;
+        if (overrun > OVERRUN_TOLERANCE_S) {
+            overruns.push({ index: clip.index, overrunMs: Math.round(overrun * 1000), speed });
+        }
+        return { start: clip.startTime / 1000, audio };
+    });
+
+    const duration = Math.max(original?.duration ?? 0, ...placed.map(({ start, audio }) => start + audio.duration));
+    const ctx = new OfflineAudioContext(1, Math.max(1, Math.ceil(duration * DUBBING_SAMPLE_RATE)), DUBBING_SAMPLE_RATE);
+
+    if (original) {
+        const source = ctx.createBufferSource();
+        source.buffer = original;
+        const gain = ctx.createGain();
+        duckUnderSpeech(gain.gain, placed.map(({ start, audio }) => ({ start, end: start + audio.duration })));
+        source.connect(gain).connect(ctx.destination);
+        source.start();
+    }
+    for (const { start, audio } of placed) {
+        const source = ctx.createBufferSource();
+        source.buffer = audio;
+        source.connect(ctx.destination);
+        source.start(start);
+    }
+
+    return { buffer: await ctx.startRendering(), overruns };
+};
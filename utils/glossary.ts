@@ -0,0 +1,236 @@
+import { GlossaryEntry } from '../types.ts';
+import { isSameLanguage } from './languages.ts';
+
+// Terminology glossaries: merging, the post-translation check, and CSV/TBX import and export
+
+// Scripts written with spaces between words, where a term only matches as a whole word
+const SPACED_SCRIPT = /[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{N}]/u;
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const CSV_HEADER = ['source', 'target', 'language', 'do_not_translate'];
+// TBX language codes for the source term and for rules that apply to any target language
+const TBX_SOURCE_LANGUAGE = 'und';
+const TBX_ANY_LANGUAGE = 'mul';
+
+export interface GlossaryViolation {
+    index: number; // Segment or cue index
+    entry: GlossaryEntry;
+}
+
+const isUsable = (entry: GlossaryEntry): boolean =>
+    entry.source.trim() !== '' && (!!entry.doNotTranslate || entry.target.trim() !== '');
+
+// 0 for a rule for any language, 1 for the same primary language ("es-ES" for "es"), 2 for the exact code
+const getLanguageMatch = (entry: GlossaryEntry, languageCode: string): number => {
+    if (!entry.language) return 0;
+    if (entry.language.toLowerCase() === languageCode.toLowerCase()) return 2;
+    return isSameLanguage(entry.language, languageCode) ? 1 : -1;
+};
+
+/**
+ * Rules that apply when translating into `languageCode`, including rules for a regional variant of
+ * it. Project entries override global ones for the same source term; within a glossary a rule for
+ * exactly that language beats one for a variant, which beats a rule for any language.
+ */
+export const getGlossaryForLanguage = (global: GlossaryEntry[], project: GlossaryEntry[], languageCode: string): GlossaryEntry[] => {
+    const byTerm = new Map<string, GlossaryEntry>();
+    for (const entries of [global, project]) {
+        const applicable = entries.filter(e => isUsable(e) && getLanguageMatch(e, languageCode) >= 0);
+        // More specific rules come last so they win within the same glossary
+        const ordered = [...applicable].sort((a, b) => getLanguageMatch(a, languageCode) - getLanguageMatch(b, languageCode));
+        for (const entry of ordered) {
+            byTerm.set(entry.source.trim().toLowerCase(), entry);
+        }
+    }
+    return [...byTerm.values()];
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive search; whole words only where the script puts spaces between words
+export const containsTerm = (text: string, term: string): boolean => {
+    const trimmed = term.trim();
+    if (!trimmed) return false;
+    const before = SPACED_SCRIPT.test(trimmed[0]) ? '(?<![\\p{L}\\p{N}])' : '';
+    const after = SPACED_SCRIPT.test(trimmed[trimmed.length - 1]) ? '(?![\\p{L}\\p{N}])' : '';
+    return new RegExp(`${before}${escapeRegExp(trimmed)}${after}`, 'iu').test(text);
+};
+
+export const getExpectedTerm = (entry: GlossaryEntry): string => entry.doNotTranslate ? entry.source : entry.target;
+
+// Segments whose source contains a glossary term while the translation lacks the required rendering
+export const findGlossaryViolations = (sources: string[], translations: string[], glossary: GlossaryEntry[]): GlossaryViolation[] => {
+    const violations: GlossaryViolation[] = [];
+    translations.forEach((translation, index) => {
+        const source = sources[index];
+        if (source === undefined) return;
+        for (const entry of glossary) {
+            if (containsTerm(source, entry.source) && !containsTerm(translation, getExpectedTerm(entry))) {
+                violations.push({ index, entry });
+            }
+        }
+    });
+    return violations;
+};
+
+// --- CSV ---
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheets export with commas, semicolons or tabs; the one used most in the first line wins
+const detectCsvDelimiter = (content: string): string => {
+    const firstLine = content.split(/\r?\n/, 1)[0];
+    const count = (delimiter: string) => firstLine.split(delimiter).length;
+    return CSV_DELIMITERS.reduce((best, d) => count(d) > count(best) ? d : best);
+};
+
+const parseCsvRows = (content: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Reads a glossary from CSV (comma, semicolon or tab separated). Columns are matched by the
+ * header names source, target, language and do_not_translate; without a header the first two
+ * columns are taken as source and target.
+ */
+export const parseGlossaryCsv = (content: string): GlossaryEntry[] => {
+    const text = content.replace(/^\uFEFF/, '');
+    const rows = parseCsvRows(text, detectCsvDelimiter(text));
+    if (rows.length === 0) return [];
+    const header = rows[0].map(cell => cell.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+    const hasHeader = header.includes('source');
+    const column = (name: string, fallback: number) => hasHeader ? header.indexOf(name) : fallback;
+    const [sourceCol, targetCol, languageCol, dntCol] = [column('source', 0), column('target', 1), column('language', -1), column('do_not_translate', -1)];
+
+    return (hasHeader ? rows.slice(1) : rows)
+        .map(cells => {
+            const cell = (index: number) => index >= 0 ? (cells[index] ?? '').trim() : '';
+            const language = cell(languageCol);
+            const doNotTranslate = TRUE_VALUES.includes(cell(dntCol).toLowerCase());
+            return {
+                source: cell(sourceCol),
+                target: cell(targetCol),
+                ...(language ? { language } : {}),
+                ...(doNotTranslate ? { doNotTranslate } : {}),
+            };
+        })
+        .filter(isUsable);
+};
+
+const toCsvField = (value: string): string => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const glossaryToCsv = (entries: GlossaryEntry[]): string =>
+    [CSV_HEADER, ...entries.map(e => [e.source, e.target, e.language || '', e.doNotTranslate ? 'true' : ''])]
+        .map(row => row.map(toCsvField).join(','))
+        .join('\r\n') + '\r\n';
+
+// --- TBX ---
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const tbxLangSec = (language: string, term: string): string =>
+    `        <langSec xml:lang="${escapeXml(language)}"><termSec><term>${escapeXml(term)}</term></termSec></langSec>`;
+
+/**
+ * Writes a TBX (ISO 30042) file with one concept per source term. The source term is tagged "und"
+ * because the glossary does not record the source language; a do-not-translate term has no
+ * target language section, and a rule for any target language is tagged "mul".
+ */
+export const glossaryToTbx = (entries: GlossaryEntry[]): string => {
+    const concepts = new Map<string, GlossaryEntry[]>();
+    for (const entry of entries.filter(isUsable)) {
+        concepts.set(entry.source, [...(concepts.get(entry.source) || []), entry]);
+    }
+    const body = [...concepts.entries()].map(([source, rules], i) => [
+        `      <conceptEntry id="c${i + 1}">`,
+        tbxLangSec(TBX_SOURCE_LANGUAGE, source),
+        ...rules.filter(r => !r.doNotTranslate).map(r => tbxLangSec(r.language || TBX_ANY_LANGUAGE, r.target)),
+        `      </conceptEntry>`,
+    ].join('\n'));
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<tbx type="TBX-Basic" style="dca" xml:lang="${TBX_SOURCE_LANGUAGE}" xmlns="urn:iso:std:iso:30042:ed-2">`,
+        '  <tbxHeader><fileDesc><sourceDesc><p>Glossary exported from Audio Scribe &amp; Translate</p></sourceDesc></fileDesc></tbxHeader>',
+        '  <text>',
+        '    <body>',
+        ...body,
+        '    </body>',
+        '  </text>',
+        '</tbx>',
+        '',
+    ].join('\n');
+};
+
+const childrenNamed = (element: Element, ...names: string[]): Element[] =>
+    Array.from(element.getElementsByTagName('*')).filter(child => names.includes(child.localName));
+
+/**
+ * Reads TBX v3 (conceptEntry/langSec) or TBX v2/martif (termEntry/langSet) files. The first
+ * language section of a concept is its source term and every other one becomes a rule for that
+ * language; a concept with a single language section is a do-not-translate term.
+ */
+export const parseGlossaryTbx = (content: string): GlossaryEntry[] => {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The TBX file is not valid XML');
+    }
+    const entries: GlossaryEntry[] = [];
+    for (const concept of childrenNamed(doc.documentElement, 'conceptEntry', 'termEntry')) {
+        const sections = childrenNamed(concept, 'langSec', 'langSet').map(section => ({
+            language: section.getAttribute('xml:lang') || section.getAttribute('lang') || '',
+            term: childrenNamed(section, 'term')[0]?.textContent?.trim() || '',
+        })).filter(s => s.term);
+        const [source, ...targets] = sections;
+        if (!source) continue;
+        if (targets.length === 0) {
+            entries.push({ source: source.term, target: '', doNotTranslate: true });
+            continue;
+        }
+        for (const target of targets) {
+            const language = target.language === TBX_ANY_LANGUAGE ? '' : target.language;
+            entries.push({ source: source.term, target: target.term, ...(language ? { language } : {}) });
+        }
+    }
+    return entries;
+};
+
+// Imported entries replace existing rules for the same term and language and are added otherwise
+export const mergeGlossaryEntries = (existing: GlossaryEntry[], imported: GlossaryEntry[]): GlossaryEntry[] => {
+    const key = (e: GlossaryEntry) => `${e.source.trim().toLowerCase()}\u0000${e.language || ''}`;
+    const importedKeys = new Set(imported.map(key));
+    return [...existing.filter(e => !importedKeys.has(key(e))), ...imported];
+};
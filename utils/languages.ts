@@ -0,0 +1,23 @@
+import { LANGUAGES } from '../constants.ts';
+
+export const getLanguageName = (code: string): string => LANGUAGES.find(l => l.code === code)?.name || code;
+
+// "zh-CN" → "zh": speech servers and language comparisons only use the primary subtag
+export const toPrimaryLanguage = (code: string): string => code.split('-')[0].toLowerCase();
+
+export const isSameLanguage = (a: string, b: string): boolean => toPrimaryLanguage(a) === toPrimaryLanguage(b);
+
+/**
+ * Maps whatever a provider reports ("fa", "fa-IR", "persian", "Persian") to a code from the language list.
+ * Codes outside the list are kept as their primary subtag; unrecognised names give undefined.
+ */
+export const normalizeLanguageCode = (value: string): string | undefined => {
+    const trimmed = value.trim().toLowerCase();
+    if (!trimmed) return undefined;
+    const byCode = LANGUAGES.find(l => l.code.toLowerCase() === trimmed) || LANGUAGES.find(l => isSameLanguage(l.code, trimmed));
+    if (byCode) return byCode.code;
+    // Whisper reports English names in lower case
+    const byName = LANGUAGES.find(l => l.name.toLowerCase().replace(/\s*\(.*\)$/, '') === trimmed);
+    if (byName) return byName.code;
+    return /^[a-z]{2,3}(-[a-z0-9]+)*$/.test(trimmed) ? toPrimaryLanguage(trimmed) : undefined;
+};
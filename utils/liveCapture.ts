@@ -0,0 +1,148 @@
+// Microphone capture for live sessions: an AudioWorklet copies the input off the audio thread and a
+// worker turns it into 16 kHz PCM frames, so the main thread only forwards finished frames.
+
+export const LIVE_SAMPLE_RATE = 16000; // What the live session expects
+const FRAME_SAMPLES = 1600; // 100 ms per frame sent to the session
+const WORKLET_BATCH_SAMPLES = 1024; // Render quanta are 128 samples; batching keeps the message rate low
+
+// Input level since the previous frame, measured before resampling, as linear amplitudes (1 = full scale)
+export interface InputLevel {
+    rms: number;
+    peak: number;
+}
+
+export interface PcmFrame {
+    pcm: Int16Array;
+    base64: string; // The same samples, as sent to the live session
+    level: InputLevel;
+}
+
+// First message to the encoder worker; `port` receives audio straight from the worklet
+export interface PcmEncoderInit {
+    port: MessagePort;
+    inputSampleRate: number;
+    outputSampleRate: number;
+    frameSamples: number;
+}
+
+export interface LiveCapture {
+    stop: () => Promise<void>;
+}
+
+// Runs on the audio rendering thread; kept as plain JavaScript because it is loaded as its own module
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor() {
+        super();
+        this.target = null;
+        this.batch = new Float32Array(${WORKLET_BATCH_SAMPLES});
+        this.filled = 0;
+        this.port.onmessage = (event) => { this.target = event.data.port; };
+    }
+
+    process(inputs) {
+        const channels = inputs[0];
+        if (!this.target || !channels || channels.length === 0) return true;
+        const length = channels[0].length;
+        for (let i = 0; i < length; i++) {
+            let sum = 0;
+            for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+            this.batch[this.filled++] = sum / channels.length;
+            if (this.filled === this.batch.length) {
+                this.target.postMessage(this.batch, [this.batch.buffer]);
+                this.batch = new Float32Array(${WORKLET_BATCH_SAMPLES});
+                this.filled = 0;
+            }
+        }
+        return true;
+    }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface MicrophoneOptions {
+    deviceId: string; // Empty for the system default
+    noiseSuppression: boolean;
+    echoCancellation: boolean;
+}
+
+/**
+ * Opens the chosen microphone. When that device is gone (unplugged, or a saved ID from another session)
+ * the default microphone is opened instead and `usedDefault` is set so the caller can forget the choice.
+ */
+export const openMicrophone = async ({ deviceId, noiseSuppression, echoCancellation }: MicrophoneOptions): Promise<{ stream: MediaStream; usedDefault: boolean }> => {
+    const processing = { noiseSuppression, echoCancellation };
+    if (!deviceId) {
+        return { stream: await navigator.mediaDevices.getUserMedia({ audio: processing }), usedDefault: false };
+    }
+    try {
+        return { stream: await navigator.mediaDevices.getUserMedia({ audio: { ...processing, deviceId: { exact: deviceId } } }), usedDefault: false };
+    } catch (err: any) {
+        if (err.name !== 'OverconstrainedError' && err.name !== 'NotFoundError') throw err;
+        return { stream: await navigator.mediaDevices.getUserMedia({ audio: processing }), usedDefault: true };
+    }
+};
+
+// Asks for a 16 kHz context; browsers that cannot capture at that rate get the device rate and the worker resamples
+const createCaptureContext = (stream: MediaStream): { context: AudioContext; source: MediaStreamAudioSourceNode } => {
+    const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+    try {
+        const context: AudioContext = new AudioContextClass({ sampleRate: LIVE_SAMPLE_RATE });
+        try {
+            return { context, source: context.createMediaStreamSource(stream) };
+        } catch (err) {
+            context.close();
+            throw err;
+        }
+    } catch {
+        const context: AudioContext = new AudioContextClass();
+        return { context, source: context.createMediaStreamSource(stream) };
+    }
+};
+
+/**
+ * Starts capturing `stream` and calls `onFrame` with every 100 ms of 16 kHz mono audio, in order.
+ * Stopping releases the audio context and the worker but not the stream's tracks.
+ */
+export const startLiveCapture = async (stream: MediaStream, onFrame: (frame: PcmFrame) => void): Promise<LiveCapture> => {
+    const { context, source } = createCaptureContext(stream);
+    const workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+    let worker: Worker | null = null;
+    try {
+        await context.audioWorklet.addModule(workletUrl);
+        const node = new AudioWorkletNode(context, 'pcm-capture', { numberOfInputs: 1, numberOfOutputs: 1, channelCountMode: 'explicit', channelCount: 1 });
+        worker = new Worker(new URL('./pcmEncoderWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<PcmFrame>) => onFrame(event.data);
+
+        const channel = new MessageChannel();
+        const init: PcmEncoderInit = {
+            port: channel.port2,
+            inputSampleRate: context.sampleRate,
+            outputSampleRate: LIVE_SAMPLE_RATE,
+            frameSamples: FRAME_SAMPLES,
+        };
+        worker.postMessage(init, [channel.port2]);
+        node.port.postMessage({ port: channel.port1 }, [channel.port1]);
+
+        source.connect(node);
+        // The node writes no output, but it is only rendered while connected to the destination
+        node.connect(context.destination);
+
+        const activeWorker = worker;
+        return {
+            stop: async () => {
+                source.disconnect();
+                node.disconnect();
+                activeWorker.terminate();
+                if (context.state !== 'closed') await context.close();
+            },
+        };
+    } catch (err) {
+        worker?.terminate();
+        source.disconnect();
+        if (context.state !== 'closed') await context.close();
+        throw err;
+    } finally {
+        URL.revokeObjectURL(workletUrl);
+    }
+};
@@ -0,0 +1,28 @@
+import { decodeAudioFile, downmixAudioBuffer } from './audio.ts';
+
+// Containers the browser often reports without a MIME type (MKV in particular)
+const VIDEO_EXTENSIONS = ['mp4', 'm4v', 'mov', 'webm', 'mkv', 'ogv'];
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'aac', 'ogg', 'oga', 'opus', 'flac', 'weba'];
+
+const getExtension = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const isVideoFile = (file: File): boolean =>
+    file.type.startsWith('video/') || (!file.type.startsWith('audio/') && VIDEO_EXTENSIONS.includes(getExtension(file.name)));
+
+export const isAudioFile = (file: File): boolean =>
+    file.type.startsWith('audio/') || (!file.type && AUDIO_EXTENSIONS.includes(getExtension(file.name)));
+
+/**
+ * Decodes the audio of an uploaded file for chunking. A video's soundtrack is mixed down to 16 kHz
+ * mono, since keeping a long multichannel track at full rate in memory gains nothing for transcription.
+ */
+export const decodeMediaAudio = async (file: File, data: ArrayBuffer): Promise<AudioBuffer> => {
+    if (!isVideoFile(file)) return decodeAudioFile(data);
+    let track: AudioBuffer;
+    try {
+        track = await decodeAudioFile(data);
+    } catch {
+        throw new Error('No audio track could be decoded from this video. It may have no sound, or use a codec the browser does not support');
+    }
+    return downmixAudioBuffer(track);
+};
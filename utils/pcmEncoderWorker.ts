@@ -0,0 +1,50 @@
+// Worker side of live capture: resamples the worklet's audio to 16 kHz, cuts it into fixed frames and
+// encodes each one as 16-bit PCM and base64, so none of this work competes with React renders.
+import { encode } from './audio.ts';
+import { createResampler } from './resampler.ts';
+import { PcmEncoderInit, PcmFrame } from './liveCapture.ts';
+
+self.onmessage = (event: MessageEvent<PcmEncoderInit>) => {
+    const { port, inputSampleRate, outputSampleRate, frameSamples } = event.data;
+    const resample = createResampler(inputSampleRate, outputSampleRate);
+    let frame = new Float32Array(frameSamples);
+    let filled = 0;
+    let peak = 0;
+    let sumOfSquares = 0;
+    let measured = 0;
+
+    port.onmessage = (message: MessageEvent<Float32Array>) => {
+        // Measured on the raw input, where clipping actually happens
+        for (const sample of message.data) {
+            peak = Math.max(peak, Math.abs(sample));
+            sumOfSquares += sample * sample;
+        }
+        measured += message.data.length;
+        const samples = resample(message.data);
+        let offset = 0;
+        while (offset < samples.length) {
+            const count = Math.min(frameSamples - filled, samples.length - offset);
+            frame.set(samples.subarray(offset, offset + count), filled);
+            filled += count;
+            offset += count;
+            if (filled < frameSamples) break;
+
+            const pcm = new Int16Array(frameSamples);
+            for (let i = 0; i < frameSamples; i++) {
+                const sample = Math.max(-1, Math.min(1, frame[i]));
+                pcm[i] = Math.round(sample * 0x7fff);
+            }
+            const result: PcmFrame = {
+                pcm,
+                base64: encode(new Uint8Array(pcm.buffer)),
+                level: { rms: measured > 0 ? Math.sqrt(sumOfSquares / measured) : 0, peak },
+            };
+            peak = 0;
+            sumOfSquares = 0;
+            measured = 0;
+            self.postMessage(result, { transfer: [pcm.buffer] });
+            frame = new Float32Array(frameSamples);
+            filled = 0;
+        }
+    };
+};
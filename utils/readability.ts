@@ -0,0 +1,192 @@
+import { SubtitleRules, TranscriptionSegment } from '../types.ts';
+import { mergeSegmentWithNext, splitSegment } from './segmentEdits.ts';
+import { getSrtSpeakerPrefix } from './subtitles.ts';
+
+// Reflows subtitles to a set of readability rules and reports what still breaks them
+
+export type ReadabilityRule = 'lineLength' | 'lineCount' | 'readingSpeed' | 'minDuration' | 'maxDuration' | 'gap';
+
+export interface ReadabilityViolation {
+    index: number;
+    rule: ReadabilityRule;
+    message: string;
+}
+
+const flattenText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const countReadingChars = (text: string): number => text.replace(/\n/g, '').length;
+
+// Text as it appears on screen in the strictest format, SRT, where the speaker name is written before the first line
+const getDisplayedText = (segment: TranscriptionSegment): string => `${getSrtSpeakerPrefix(segment)}${segment.text}`;
+
+// `indent` is taken up on the first line by text written before the words, such as a speaker name
+const greedyWrap = (words: string[], width: number, indent: number = 0): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of words) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && candidate.length + (lines.length === 0 ? indent : 0) > width) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    return line ? [...lines, line] : lines;
+};
+
+const splitWords = (text: string): string[] => flattenText(text).split(' ').filter(Boolean);
+
+/**
+ * Breaks text into as few lines of at most `maxCharsPerLine` as possible, then evens them out by
+ * wrapping at the narrowest width that still needs no more lines. A single word longer than a line
+ * stays on its own line. `indent` characters of the first line are already taken by a prefix.
+ */
+export const breakSubtitleLines = (text: string, maxCharsPerLine: number, indent: number = 0): string => {
+    const words = splitWords(text);
+    const lineCount = greedyWrap(words, maxCharsPerLine, indent).length;
+    if (lineCount <= 1) return words.join(' ');
+    for (let width = Math.ceil((words.join(' ').length + indent) / lineCount); width < maxCharsPerLine; width++) {
+        const lines = greedyWrap(words, width, indent);
+        if (lines.length === lineCount) return lines.join('\n');
+    }
+    return greedyWrap(words, maxCharsPerLine, indent).join('\n');
+};
+
+// Shortest time the subtitle can stay on screen and still be read
+const getReadingTimeMs = (segment: TranscriptionSegment, rules: SubtitleRules): number =>
+    Math.max(rules.minDurationMs, (countReadingChars(getDisplayedText(segment)) / rules.maxCharsPerSecond) * 1000);
+
+const needsSplit = (segment: TranscriptionSegment, rules: SubtitleRules): boolean =>
+    greedyWrap(splitWords(segment.text), rules.maxCharsPerLine, getSrtSpeakerPrefix(segment).length).length > rules.maxLines
+    || segment.endTime - segment.startTime > rules.maxDurationMs;
+
+// The space closest to the middle, favouring the end of a sentence or clause
+const findSplitPosition = (text: string): number => {
+    let best = -1;
+    let bestScore = Infinity;
+    for (let i = 1; i < text.length; i++) {
+        if (text[i] !== ' ') continue;
+        const before = text[i - 1];
+        const bonus = /[.!?…。！？؟]/.test(before) ? 0.3 : /[,;:،，、]/.test(before) ? 0.15 : 0;
+        const score = Math.abs(i / text.length - 0.5) - bonus;
+        if (score < bestScore) {
+            bestScore = score;
+            best = i;
+        }
+    }
+    return best;
+};
+
+const splitToFit = (segment: TranscriptionSegment, rules: SubtitleRules): TranscriptionSegment[] => {
+    if (!needsSplit(segment, rules)) return [segment];
+    const position = findSplitPosition(segment.text);
+    if (position <= 0) return [segment];
+    const [first, second] = splitSegment([segment], 0, position);
+    return [...splitToFit(first, rules), ...splitToFit(second, rules)];
+};
+
+// Time a subtitle may stay up: until just before the next one, and never longer than the maximum
+const getAvailableMs = (segments: TranscriptionSegment[], index: number, rules: SubtitleRules): number =>
+    Math.min(rules.maxDurationMs, (segments[index + 1]?.startTime ?? Infinity) - rules.minGapMs - segments[index].startTime);
+
+const isCramped = (segments: TranscriptionSegment[], index: number, rules: SubtitleRules): boolean =>
+    getAvailableMs(segments, index, rules) < getReadingTimeMs(segments[index], rules);
+
+// Subtitles too short to read even when extended are joined with a neighbour by the same speaker, if the result fits
+const mergeCramped = (segments: TranscriptionSegment[], rules: SubtitleRules): TranscriptionSegment[] => {
+    let result = segments;
+    let i = 0;
+    while (i < result.length) {
+        let mergedAt = -1;
+        if (isCramped(result, i, rules)) {
+            for (const first of [i, i - 1]) {
+                const a = result[first];
+                const b = result[first + 1];
+                if (!a || !b || (a.speaker ?? '') !== (b.speaker ?? '')) continue;
+                const merged = mergeSegmentWithNext(result, first);
+                if (!needsSplit(merged[first], rules) && !isCramped(merged, first, rules)) {
+                    result = merged;
+                    mergedAt = first;
+                    break;
+                }
+            }
+        }
+        // The subtitle before a merge may now fit together with the merged one
+        i = mergedAt >= 0 ? Math.max(0, mergedAt - 1) : i + 1;
+    }
+    return result;
+};
+
+/**
+ * Extends subtitles that are up too briefly for their text, first into the gap after them and then
+ * into the gap before, caps the duration and keeps the minimum gap to the next subtitle.
+ */
+const fitTiming = (segments: TranscriptionSegment[], rules: SubtitleRules): TranscriptionSegment[] => {
+    const result = segments.map(segment => ({ ...segment }));
+    result.forEach((segment, i) => {
+        const previousEnd = i > 0 ? result[i - 1].endTime : -Infinity;
+        const latestEnd = (result[i + 1]?.startTime ?? Infinity) - rules.minGapMs;
+        const needed = Math.min(rules.maxDurationMs, getReadingTimeMs(segment, rules));
+        if (segment.endTime - segment.startTime < needed) {
+            segment.endTime = Math.max(segment.endTime, Math.min(segment.startTime + needed, latestEnd));
+            if (segment.endTime - segment.startTime < needed) {
+                segment.startTime = Math.min(segment.startTime, Math.max(0, previousEnd + rules.minGapMs, segment.endTime - needed));
+            }
+        }
+        if (segment.endTime - segment.startTime > rules.maxDurationMs) {
+            segment.endTime = segment.startTime + rules.maxDurationMs;
+        }
+        if (segment.endTime > latestEnd && latestEnd > segment.startTime) {
+            segment.endTime = latestEnd;
+        }
+        segment.startTime = Math.round(segment.startTime);
+        segment.endTime = Math.round(segment.endTime);
+    });
+    return result;
+};
+
+/**
+ * Splits, merges, retimes and line-breaks segments so that they keep to `rules` as far as the
+ * timing allows, counting the speaker name that SRT writes before the first line. Splits fall at
+ * sentence or clause ends near the middle and use word timings when there are any. Whatever
+ * cannot be fixed is left for findReadabilityViolations to report.
+ */
+export const reflowSegments = (segments: TranscriptionSegment[], rules: SubtitleRules): TranscriptionSegment[] => {
+    const split = segments.flatMap(segment => splitToFit({ ...segment, text: flattenText(segment.text) }, rules));
+    return fitTiming(mergeCramped(split, rules), rules)
+        .map(segment => ({ ...segment, text: breakSubtitleLines(segment.text, rules.maxCharsPerLine, getSrtSpeakerPrefix(segment).length) }));
+};
+
+export const findReadabilityViolations = (segments: TranscriptionSegment[], rules: SubtitleRules): ReadabilityViolation[] => {
+    const violations: ReadabilityViolation[] = [];
+    segments.forEach((segment, index) => {
+        const add = (rule: ReadabilityRule, message: string) => violations.push({ index, rule, message });
+        const displayed = getDisplayedText(segment);
+        const lines = displayed.split('\n');
+        const longest = Math.max(...lines.map(line => line.length));
+        if (longest > rules.maxCharsPerLine) {
+            add('lineLength', `a line of ${longest} characters (max ${rules.maxCharsPerLine})`);
+        }
+        if (lines.length > rules.maxLines) {
+            add('lineCount', `${lines.length} lines (max ${rules.maxLines})`);
+        }
+        const duration = segment.endTime - segment.startTime;
+        const chars = countReadingChars(displayed);
+        if (chars > 0 && duration > 0 && chars / (duration / 1000) > rules.maxCharsPerSecond) {
+            add('readingSpeed', `${(chars / (duration / 1000)).toFixed(1)} characters per second (max ${rules.maxCharsPerSecond})`);
+        }
+        if (duration < rules.minDurationMs) {
+            add('minDuration', `on screen for ${(duration / 1000).toFixed(2)}s (min ${(rules.minDurationMs / 1000).toFixed(2)}s)`);
+        }
+        if (duration > rules.maxDurationMs) {
+            add('maxDuration', `on screen for ${(duration / 1000).toFixed(2)}s (max ${(rules.maxDurationMs / 1000).toFixed(2)}s)`);
+        }
+        const next = segments[index + 1];
+        if (next && next.startTime - segment.endTime < rules.minGapMs) {
+            const gap = next.startTime - segment.endTime;
+            add('gap', gap < 0 ? 'overlaps the next subtitle' : `${gap} ms before the next subtitle (min ${rules.minGapMs} ms)`);
+        }
+    });
+    return violations;
+};
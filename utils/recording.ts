@@ -0,0 +1,75 @@
+// Keeps what the microphone captured during a live session so it can be saved and re-transcribed
+
+/**
+ * The 16-bit frames sent to the live session. The delay before the first frame is kept as leading
+ * silence so that segment times, measured from the moment recording started, line up with the audio.
+ */
+export interface PcmRecording {
+    sampleRate: number;
+    leadingSamples: number;
+    frames: Int16Array[];
+}
+
+export const createPcmRecording = (sampleRate: number): PcmRecording => ({ sampleRate, leadingSamples: 0, frames: [] });
+
+// `elapsedMs` is the time since recording started, taken when the frame arrives (at its end)
+export const appendPcmFrame = (recording: PcmRecording, frame: Int16Array, elapsedMs: number) => {
+    if (recording.frames.length === 0) {
+        recording.leadingSamples = Math.max(0, Math.round((elapsedMs / 1000) * recording.sampleRate) - frame.length);
+    }
+    recording.frames.push(frame.slice());
+};
+
+export const pcmRecordingToAudioBuffer = (recording: PcmRecording): AudioBuffer | null => {
+    const frameSamples = recording.frames.reduce((total, frame) => total + frame.length, 0);
+    if (frameSamples === 0) return null;
+    const buffer = new AudioBuffer({ numberOfChannels: 1, length: recording.leadingSamples + frameSamples, sampleRate: recording.sampleRate });
+    const channel = buffer.getChannelData(0);
+    let offset = recording.leadingSamples;
+    for (const frame of recording.frames) {
+        for (let i = 0; i < frame.length; i++) channel[offset + i] = frame[i] / 32768;
+        offset += frame.length;
+    }
+    return buffer;
+};
+
+const COMPRESSED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm'];
+
+export interface CompressedRecorder {
+    pause: () => void;
+    resume: () => void;
+    stop: () => Promise<Blob | null>; // Null when nothing was recorded
+}
+
+// Records the same stream as Opus next to the PCM frames; null when the browser cannot
+export const startCompressedRecording = (stream: MediaStream): CompressedRecorder | null => {
+    if (typeof MediaRecorder === 'undefined') return null;
+    const mimeType = COMPRESSED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) return null;
+
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const parts: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) parts.push(event.data);
+    };
+    recorder.start(1000);
+
+    const collect = () => parts.length > 0 ? new Blob(parts, { type: mimeType }) : null;
+    return {
+        pause: () => {
+            if (recorder.state === 'recording') recorder.pause();
+        },
+        resume: () => {
+            if (recorder.state === 'paused') recorder.resume();
+        },
+        stop: () => new Promise(resolve => {
+            // The recorder stops by itself when the stream's tracks end
+            if (recorder.state === 'inactive') {
+                resolve(collect());
+                return;
+            }
+            recorder.onstop = () => resolve(collect());
+            recorder.stop();
+        }),
+    };
+};
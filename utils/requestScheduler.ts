@@ -0,0 +1,100 @@
+// Retry and concurrency helpers for provider requests
+
+export interface RetryOptions {
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    shouldStop?: () => boolean; // Checked before every wait, e.g. when the user cancels
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits and server-side failures are worth retrying; client errors such as 400 or 401 are not
+export const isRetryableError = (error: any): boolean => {
+    const status = typeof error?.status === 'number' ? error.status : undefined;
+    if (status !== undefined) {
+        return status === 408 || status === 429 || status >= 500;
+    }
+    // fetch() rejects with a TypeError when the connection itself fails
+    return error instanceof TypeError;
+};
+
+/**
+ * Delay requested by the server, in milliseconds: an explicit `retryAfterMs` on the error
+ * (set from a Retry-After header) or the `retryDelay` the Gemini API puts in its error body.
+ */
+export const getRetryAfterMs = (error: any): number | undefined => {
+    if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+    const match = String(error?.message ?? '').match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Parses a Retry-After header, which is either a number of seconds or an HTTP date
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Runs `operation`, retrying retryable failures with exponential backoff and full jitter.
+ * A server-provided retry delay takes precedence over the computed backoff.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (attempt >= maxRetries || !isRetryableError(error) || options.shouldStop?.()) {
+                throw error;
+            }
+            const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            const delayMs = Math.min(maxDelayMs, getRetryAfterMs(error) ?? backoff);
+            options.onRetry?.(attempt + 1, delayMs, error);
+            await sleep(delayMs);
+            if (options.shouldStop?.()) {
+                throw error;
+            }
+        }
+    }
+};
+
+/**
+ * Calls `worker` for every item with at most `concurrency` calls in flight. Results come back in
+ * input order whatever order the calls finish in, and one failure does not stop the others.
+ * No new items are started once `shouldStop` returns true; those are reported as undefined.
+ */
+export const runConcurrently = async <T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>,
+    shouldStop: () => boolean = () => false
+): Promise<(PromiseSettledResult<R> | undefined)[]> => {
+    const results: (PromiseSettledResult<R> | undefined)[] = new Array(items.length).fill(undefined);
+    let next = 0;
+
+    const runWorker = async () => {
+        while (next < items.length && !shouldStop()) {
+            const index = next++;
+            try {
+                results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker));
+    return results;
+};
@@ -0,0 +1,55 @@
+const ZERO_CROSSINGS = 16; // Half-length of the filter, in zero crossings of its sinc
+const CUTOFF_RATIO = 0.9; // Fraction of the lower Nyquist frequency let through, leaving room for the roll-off
+
+const sinc = (x: number): number => x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+
+// Blackman window over [-1, 1]
+const blackman = (x: number): number => 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+/**
+ * Creates a streaming sample-rate converter for mono audio. Every output sample is a windowed-sinc
+ * low-pass of the input evaluated at its exact position, so downsampling 48 kHz microphone audio to
+ * 16 kHz neither aliases nor drifts. Blocks can be fed as they arrive; the filter keeps the tail of the
+ * previous block, which delays the output by half a filter length.
+ */
+export const createResampler = (inputRate: number, outputRate: number): ((input: Float32Array) => Float32Array) => {
+    if (inputRate === outputRate) return (input) => input.slice();
+
+    const step = inputRate / outputRate; // Input samples per output sample
+    const cutoff = (CUTOFF_RATIO * Math.min(inputRate, outputRate)) / 2 / inputRate; // Cycles per input sample
+    const halfWidth = Math.ceil(ZERO_CROSSINGS / (2 * cutoff)); // Input samples on each side of a position
+    // Silence before the stream starts, so the first outputs have a full window
+    let pending = new Float32Array(halfWidth);
+    let pendingStart = -halfWidth; // Stream position of pending[0]
+    let produced = 0;
+
+    return (input) => {
+        const buffer = new Float32Array(pending.length + input.length);
+        buffer.set(pending);
+        buffer.set(input, pending.length);
+        const bufferEnd = pendingStart + buffer.length;
+
+        const output: number[] = [];
+        for (;;) {
+            const position = produced * step;
+            const center = Math.floor(position);
+            if (center + halfWidth >= bufferEnd) break;
+            let sum = 0;
+            let weights = 0;
+            for (let n = center - halfWidth + 1; n <= center + halfWidth; n++) {
+                const distance = position - n;
+                const weight = 2 * cutoff * sinc(2 * cutoff * distance) * blackman(distance / halfWidth);
+                sum += buffer[n - pendingStart] * weight;
+                weights += weight;
+            }
+            // Normalised so that a constant signal keeps its level at any fractional position
+            output.push(weights !== 0 ? sum / weights : 0);
+            produced++;
+        }
+
+        const keepFrom = Math.max(pendingStart, Math.floor(produced * step) - halfWidth + 1);
+        pending = buffer.slice(keepFrom - pendingStart);
+        pendingStart = keepFrom;
+        return Float32Array.from(output);
+    };
+};
@@ -0,0 +1,131 @@
+import { TranscriptionSegment } from '../types.ts';
+
+// Reconciles the region transcribed twice where two overlapping chunk windows meet
+
+const SIMILARITY_THRESHOLD = 0.6;
+const MIN_JOIN_WORDS = 2;
+
+const normalizeWords = (text: string): string[] =>
+    text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').split(/\s+/).filter(Boolean);
+
+/**
+ * Share of the shorter text's words that also occur in the longer one. A fragment cut at the
+ * window edge scores high against the complete sentence it came from.
+ */
+export const textSimilarity = (a: string, b: string): number => {
+    const wordsA = normalizeWords(a);
+    const wordsB = normalizeWords(b);
+    if (wordsA.length === 0 || wordsB.length === 0) return 0;
+    const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+    const pool = new Map<string, number>();
+    longer.forEach(word => pool.set(word, (pool.get(word) || 0) + 1));
+    let shared = 0;
+    for (const word of shorter) {
+        const count = pool.get(word) || 0;
+        if (count > 0) {
+            shared++;
+            pool.set(word, count - 1);
+        }
+    }
+    return shared / shorter.length;
+};
+
+/**
+ * Joins two texts where the end of `first` repeats the start of `second`, e.g. "we went to the"
+ * + "to the market" => "we went to the market". Returns null when they do not overlap.
+ */
+export const joinOverlappingText = (first: string, second: string): string | null => {
+    const firstWords = normalizeWords(first);
+    const secondRaw = second.trim().split(/\s+/);
+    const secondWords = secondRaw.map(word => normalizeWords(word).join(''));
+    for (let k = Math.min(firstWords.length, secondWords.length); k >= MIN_JOIN_WORDS; k--) {
+        if (firstWords.slice(-k).join(' ') === secondWords.slice(0, k).join(' ')) {
+            const rest = secondRaw.slice(k).join(' ');
+            return rest ? `${first.trim()} ${rest}` : first.trim();
+        }
+    }
+    return null;
+};
+
+const overlapsInTime = (a: TranscriptionSegment, b: TranscriptionSegment): boolean =>
+    a.startTime < b.endTime && b.startTime < a.endTime;
+
+/**
+ * Merges the segments of two adjacent chunks whose windows overlap in [seamMs, seamMs + overlapMs).
+ * `earlier` may hold more than one chunk; only the overlap region is touched.
+ *
+ * - A sentence that crosses the seam is complete in the earlier chunk, so the later chunk's
+ *   fragment of it is dropped, or appended when it carries on past the earlier window.
+ * - Sentences that start after the seam are taken from the later chunk, which heard them with
+ *   their following context; the earlier chunk's copy is only kept if the later one has nothing there.
+ */
+export const mergeChunkSeam = (
+    earlier: TranscriptionSegment[],
+    later: TranscriptionSegment[],
+    seamMs: number,
+    overlapMs: number
+): TranscriptionSegment[] => {
+    if (overlapMs <= 0 || earlier.length === 0 || later.length === 0) {
+        return [...earlier, ...later].sort((a, b) => a.startTime - b.startTime);
+    }
+    const overlapEnd = seamMs + overlapMs;
+    const kept = earlier.filter(s => s.startTime < seamMs);
+    const earlierTail = earlier.filter(s => s.startTime >= seamMs);
+    const replacedTail = new Set<TranscriptionSegment>();
+    const laterKept: TranscriptionSegment[] = [];
+
+    for (const segment of later) {
+        if (segment.startTime >= overlapEnd) {
+            laterKept.push(segment);
+            continue;
+        }
+
+        const crossingIndex = kept.findIndex(s => s.endTime > seamMs && overlapsInTime(s, segment)
+            && (textSimilarity(s.text, segment.text) >= SIMILARITY_THRESHOLD || joinOverlappingText(s.text, segment.text) !== null));
+        if (crossingIndex >= 0) {
+            const crossing = kept[crossingIndex];
+            if (segment.endTime > crossing.endTime) {
+                // The earlier window cut the sentence short; continue it with what the later chunk heard
+                const joined = joinOverlappingText(crossing.text, segment.text);
+                if (joined) {
+                    const words = crossing.words && segment.words
+                        ? [...crossing.words, ...segment.words.filter(w => w.startTime >= crossing.endTime)]
+                        : undefined;
+                    const { words: _, ...rest } = crossing;
+                    kept[crossingIndex] = { ...rest, text: joined, endTime: segment.endTime, ...(words ? { words } : {}) };
+                    continue;
+                }
+                laterKept.push(segment);
+            }
+            continue;
+        }
+
+        for (const duplicate of earlierTail.filter(s => overlapsInTime(s, segment) && textSimilarity(s.text, segment.text) >= SIMILARITY_THRESHOLD)) {
+            replacedTail.add(duplicate);
+        }
+        laterKept.push(segment);
+    }
+
+    // Speech only the earlier chunk caught near the seam stays, as long as it does not collide with the later chunk
+    const tailKept = earlierTail.filter(s => !replacedTail.has(s) && !laterKept.some(l => overlapsInTime(s, l)));
+    return [...kept, ...tailKept, ...laterKept].sort((a, b) => a.startTime - b.startTime);
+};
+
+/**
+ * Adds one chunk's segments to the transcript, reconciling both of its seams with neighbouring
+ * chunks that have already been merged. The chunk starts at `startMs` and its first `overlapMs`
+ * are shared with the previous chunk; `nextSeamMs` is where the next chunk starts, or null for the last one.
+ */
+export const mergeChunkSegments = (
+    transcript: TranscriptionSegment[],
+    chunkSegments: TranscriptionSegment[],
+    window: { startMs: number; nextSeamMs: number | null; overlapMs: number }
+): TranscriptionSegment[] => {
+    const { startMs, nextSeamMs, overlapMs } = window;
+    // Neighbouring chunks never reach the middle of this one, so that is where they are told apart
+    const midpoint = nextSeamMs === null ? Infinity : (startMs + nextSeamMs) / 2;
+    const previous = transcript.filter(s => s.startTime < midpoint);
+    const next = transcript.filter(s => s.startTime >= midpoint);
+    const withPrevious = previous.length > 0 ? mergeChunkSeam(previous, chunkSegments, startMs, overlapMs) : chunkSegments;
+    return next.length > 0 && nextSeamMs !== null ? mergeChunkSeam(withPrevious, next, nextSeamMs, overlapMs) : withPrevious;
+};
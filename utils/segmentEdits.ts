@@ -0,0 +1,168 @@
+import { TranscriptionSegment } from '../types.ts';
+import { countWordsBefore, matchWordsToText } from './words.ts';
+
+// Pure editing operations on a segment list. Each returns a new array and leaves the input untouched.
+
+export const NUDGE_STEP_MS = 100;
+const DEFAULT_INSERT_DURATION_MS = 2000;
+
+// Drops the `words` key entirely when the timings no longer match, rather than leaving it undefined
+const withWords = (segment: TranscriptionSegment, words: TranscriptionSegment['words']): TranscriptionSegment => {
+    const { words: _, ...rest } = segment;
+    return words && words.length > 0 ? { ...rest, words } : rest;
+};
+
+export const updateSegmentText = (segments: TranscriptionSegment[], index: number, text: string): TranscriptionSegment[] =>
+    segments.map((s, i) => i === index ? withWords({ ...s, text }, matchWordsToText(s.words, text)) : s);
+
+// Moves one edge of a segment, keeping start >= 0 and start < end
+export const nudgeSegment = (
+    segments: TranscriptionSegment[],
+    index: number,
+    edge: 'startTime' | 'endTime',
+    deltaMs: number
+): TranscriptionSegment[] =>
+    segments.map((s, i) => {
+        if (i !== index) return s;
+        if (edge === 'startTime') {
+            return { ...s, startTime: Math.min(Math.max(0, s.startTime + deltaMs), s.endTime - 1) };
+        }
+        return { ...s, endTime: Math.max(s.startTime + 1, s.endTime + deltaMs) };
+    });
+
+export const setSegmentTiming = (
+    segments: TranscriptionSegment[],
+    index: number,
+    timing: Pick<TranscriptionSegment, 'startTime' | 'endTime'>
+): TranscriptionSegment[] =>
+    segments.map((s, i) => i === index ? { ...s, startTime: timing.startTime, endTime: timing.endTime } : s);
+
+/**
+ * Splits a segment at a character position. The split time is interpolated from the
+ * position within the text, so both halves keep a plausible duration. With word timings
+ * the split happens at the start of the first word of the second half instead.
+ */
+export const splitSegment = (segments: TranscriptionSegment[], index: number, position: number): TranscriptionSegment[] => {
+    const segment = segments[index];
+    if (!segment) return segments;
+    const ratio = segment.text.length > 0 ? Math.min(Math.max(position / segment.text.length, 0), 1) : 0.5;
+    let splitTime = Math.round(segment.startTime + (segment.endTime - segment.startTime) * ratio);
+    const wordIndex = countWordsBefore(segment.text, position);
+    const words = segment.words || [];
+    if (words[wordIndex] && wordIndex > 0) {
+        splitTime = words[wordIndex].startTime;
+    }
+    const first = withWords({ ...segment, text: segment.text.slice(0, position).trim(), endTime: splitTime }, words.slice(0, wordIndex));
+    const second = withWords({ ...segment, text: segment.text.slice(position).trim(), startTime: splitTime }, words.slice(wordIndex));
+    return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+};
+
+// Splits at the word boundary closest to the given fraction of the text
+export const splitSegmentProportionally = (segments: TranscriptionSegment[], index: number, ratio: number): TranscriptionSegment[] => {
+    const segment = segments[index];
+    if (!segment) return segments;
+    const target = Math.round(segment.text.length * ratio);
+    let position = target;
+    for (let offset = 0; offset <= segment.text.length; offset++) {
+        if (segment.text[target - offset] === ' ') { position = target - offset; break; }
+        if (segment.text[target + offset] === ' ') { position = target + offset; break; }
+    }
+    return splitSegment(segments, index, position);
+};
+
+export const mergeSegmentWithNext = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] => {
+    const current = segments[index];
+    const next = segments[index + 1];
+    if (!current || !next) return segments;
+    const merged = withWords({
+        ...current,
+        text: [current.text, next.text].filter(t => t.trim()).join(' '),
+        endTime: next.endTime,
+        stale: current.stale || next.stale,
+    }, current.words && next.words ? [...current.words, ...next.words] : undefined);
+    return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+export const deleteSegment = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] =>
+    segments.filter((_, i) => i !== index);
+
+// Inserts an empty segment after `index` (or at the start when index is -1), filling the gap before the next one
+export const insertSegmentAfter = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] => {
+    const previous = segments[index];
+    const next = segments[index + 1];
+    const startTime = previous ? previous.endTime : 0;
+    const gapEnd = next ? next.startTime : startTime + DEFAULT_INSERT_DURATION_MS;
+    const endTime = gapEnd > startTime ? Math.min(gapEnd, startTime + DEFAULT_INSERT_DURATION_MS) : startTime + DEFAULT_INSERT_DURATION_MS;
+    const inserted: TranscriptionSegment = { startTime, endTime, text: '' };
+    return [...segments.slice(0, index + 1), inserted, ...segments.slice(index + 1)];
+};
+
+export const markSegmentStale = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] =>
+    segments.map((s, i) => i === index ? { ...s, stale: true } : s);
+
+export type SegmentEdit =
+    | { type: 'text'; index: number; text: string; continued: boolean }
+    | { type: 'nudge'; index: number; edge: 'startTime' | 'endTime'; deltaMs: number }
+    | { type: 'split'; index: number; position: number }
+    | { type: 'merge'; index: number }
+    | { type: 'delete'; index: number }
+    | { type: 'insert'; index: number }
+    | { type: 'speaker'; index: number; speaker: string };
+
+export const applySegmentEdit = (segments: TranscriptionSegment[], edit: SegmentEdit): TranscriptionSegment[] => {
+    switch (edit.type) {
+        case 'text':
+            return updateSegmentText(segments, edit.index, edit.text);
+        case 'nudge':
+            return nudgeSegment(segments, edit.index, edit.edge, edit.deltaMs);
+        case 'split':
+            return splitSegment(segments, edit.index, edit.position);
+        case 'merge':
+            return mergeSegmentWithNext(segments, edit.index);
+        case 'delete':
+            return deleteSegment(segments, edit.index);
+        case 'insert':
+            return insertSegmentAfter(segments, edit.index);
+        case 'speaker':
+            return segments.map((s, i) => i === edit.index ? { ...s, speaker: edit.speaker } : s);
+    }
+};
+
+/**
+ * Applies an edit made to the source segments to the index-aligned translation, marking
+ * affected translated segments as stale. Timing edits are copied over without marking.
+ */
+export const mirrorEditOnTranslation = (
+    translated: TranscriptionSegment[],
+    editedSource: TranscriptionSegment[],
+    edit: SegmentEdit
+): TranscriptionSegment[] => {
+    if (translated.length === 0) return translated;
+    switch (edit.type) {
+        case 'text':
+            return markSegmentStale(translated, edit.index);
+        case 'nudge': {
+            const source = editedSource[edit.index];
+            return source ? setSegmentTiming(translated, edit.index, source) : translated;
+        }
+        case 'split': {
+            const original = translated[edit.index];
+            if (!original) return translated;
+            const sourceLength = editedSource[edit.index].text.length + editedSource[edit.index + 1].text.length;
+            const ratio = sourceLength > 0 ? editedSource[edit.index].text.length / sourceLength : 0.5;
+            const split = splitSegmentProportionally(translated, edit.index, ratio);
+            return [edit.index, edit.index + 1].reduce(
+                (acc, i) => markSegmentStale(setSegmentTiming(acc, i, editedSource[i]), i),
+                split
+            );
+        }
+        case 'merge':
+            return markSegmentStale(mergeSegmentWithNext(translated, edit.index), edit.index);
+        case 'delete':
+            return deleteSegment(translated, edit.index);
+        case 'insert':
+            return markSegmentStale(setSegmentTiming(insertSegmentAfter(translated, edit.index), edit.index + 1, editedSource[edit.index + 1]), edit.index + 1);
+        case 'speaker':
+            return applySegmentEdit(translated, edit);
+    }
+};
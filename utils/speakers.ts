@@ -0,0 +1,36 @@
+import { SpeakerProfile, TranscriptionSegment } from '../types.ts';
+
+// Speaker labels in order of first appearance
+export const getSpeakerLabels = (segments: TranscriptionSegment[]): string[] => {
+    const labels: string[] = [];
+    for (const segment of segments) {
+        if (segment.speaker && !labels.includes(segment.speaker)) {
+            labels.push(segment.speaker);
+        }
+    }
+    return labels;
+};
+
+export const getSpeakerName = (label: string, names: Record<string, string>): string =>
+    names[label]?.trim() || label;
+
+// Replaces speaker labels with the user's names, or drops speakers entirely for exports without them
+export const applySpeakerNames = (
+    segments: TranscriptionSegment[],
+    names: Record<string, string>,
+    includeSpeakers: boolean = true
+): TranscriptionSegment[] =>
+    segments.map(({ speaker, ...rest }) =>
+        includeSpeakers && speaker ? { ...rest, speaker: getSpeakerName(speaker, names) } : rest
+    );
+
+// Adds newly described speakers to the known list; labels seen before keep their first description
+export const mergeSpeakerProfiles = (known: SpeakerProfile[], found: SpeakerProfile[] = []): SpeakerProfile[] => {
+    const merged = [...known];
+    for (const speaker of found) {
+        if (speaker.label && !merged.some(s => s.label === speaker.label)) {
+            merged.push(speaker);
+        }
+    }
+    return merged;
+};
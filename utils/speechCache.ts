@@ -0,0 +1,62 @@
+import { SpeechOptions, SynthesizedAudio } from '../types.ts';
+
+export interface SpeechCache {
+    // Returns the cached speech for `key`, calling `create` only when there is none
+    get: (key: string, create: () => Promise<SynthesizedAudio>) => Promise<SynthesizedAudio>;
+}
+
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024; // About 20 minutes of 24 kHz speech
+
+// The same text with different settings sounds different, so the settings are part of the key
+export const getSpeechCacheKey = (text: string, options: SpeechOptions = {}): string =>
+    JSON.stringify([text, options.voice ?? '', options.rate ?? 1, options.style?.trim() ?? '']);
+
+/**
+ * Keeps synthesized speech in memory so that playing a text again does not call the API again.
+ * Requests for a text that is still being synthesized share the call; failed calls are not kept.
+ * The least recently used audio is dropped once the cache holds more than `maxBytes`.
+ */
+export const createSpeechCache = (maxBytes: number = DEFAULT_MAX_BYTES): SpeechCache => {
+    const entries = new Map<string, Promise<SynthesizedAudio>>(); // In order of last use
+    const sizes = new Map<string, number>(); // Bytes of the entries that have finished
+    let totalBytes = 0;
+
+    const evict = () => {
+        for (const [key, size] of sizes) {
+            if (totalBytes <= maxBytes) break;
+            sizes.delete(key);
+            entries.delete(key);
+            totalBytes -= size;
+        }
+    };
+
+    return {
+        get: (key, create) => {
+            const cached = entries.get(key);
+            if (cached) {
+                entries.delete(key);
+                entries.set(key, cached);
+                const size = sizes.get(key);
+                if (size !== undefined) {
+                    sizes.delete(key);
+                    sizes.set(key, size);
+                }
+                return cached;
+            }
+            const created = create();
+            entries.set(key, created);
+            created.then(
+                (speech) => {
+                    if (entries.get(key) !== created) return;
+                    sizes.set(key, speech.data.byteLength);
+                    totalBytes += speech.data.byteLength;
+                    evict();
+                },
+                () => {
+                    if (entries.get(key) === created) entries.delete(key);
+                }
+            );
+            return created;
+        },
+    };
+};
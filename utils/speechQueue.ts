@@ -0,0 +1,113 @@
+import { SynthesizedAudio } from '../types.ts';
+import { decodeAudioData } from './audio.ts';
+
+export interface SpeechQueue {
+    enqueue: (speech: SynthesizedAudio) => Promise<void>;
+    whenIdle: () => Promise<void>; // Resolves once everything scheduled so far has played, or on stop
+    stop: () => void;
+}
+
+// Longest text sent in one synthesis request; long requests are slow to start and can fail outright
+export const SPEECH_BATCH_CHARS = 400;
+const LOOKAHEAD_BATCHES = 2; // Batches synthesized ahead of the one playing
+
+// Sentence ends in Latin, Arabic-script and CJK punctuation, with any closing quotes or brackets
+const SENTENCE_PATTERN = /[^.!?؟。！？\n]*(?:[.!?؟。！？]+["'”’»)\]]*|\n+|$)/g;
+
+/**
+ * Plays synthesized clips one after another on `context`. Each clip is scheduled to start when the
+ * previous one ends, so a stream of short texts is spoken in order without gaps or overlap.
+ */
+export const createSpeechQueue = (context: AudioContext): SpeechQueue => {
+    const sources = new Set<AudioBufferSourceNode>();
+    let idleWaiters: (() => void)[] = [];
+    let endTime = 0;
+
+    const notifyIdle = () => {
+        idleWaiters.forEach(resolve => resolve());
+        idleWaiters = [];
+    };
+
+    return {
+        enqueue: async (speech) => {
+            const buffer = await decodeAudioData(speech.data, context, speech.sampleRate, speech.numChannels);
+            const source = context.createBufferSource();
+            source.buffer = buffer;
+            source.connect(context.destination);
+            source.onended = () => {
+                sources.delete(source);
+                if (sources.size === 0) notifyIdle();
+            };
+            const startAt = Math.max(context.currentTime, endTime);
+            source.start(startAt);
+            endTime = startAt + buffer.duration;
+            sources.add(source);
+        },
+        whenIdle: () => sources.size === 0 ? Promise.resolve() : new Promise(resolve => idleWaiters.push(resolve)),
+        stop: () => {
+            sources.forEach(source => source.stop());
+            sources.clear();
+            endTime = 0;
+            notifyIdle();
+        },
+    };
+};
+
+/**
+ * Splits text into batches of whole sentences of at most `maxChars` each, so that long texts can be
+ * synthesized piece by piece. A single sentence longer than that is cut at the last space that fits.
+ */
+export const splitSpeechText = (text: string, maxChars: number = SPEECH_BATCH_CHARS): string[] => {
+    const batches: string[] = [];
+    let batch = ''; // Kept as written, so that "3.14" split as two sentences is joined back unchanged
+    for (const sentence of text.match(SENTENCE_PATTERN) ?? []) {
+        // Punctuation with no words yet, such as a leading "...", stays with the sentence after it
+        if (/[\p{L}\p{N}]/u.test(batch) && (batch + sentence).trim().length > maxChars) {
+            batches.push(batch.trim());
+            batch = '';
+        }
+        batch += sentence;
+        while (batch.trim().length > maxChars) {
+            batch = batch.trim();
+            const cut = batch.lastIndexOf(' ', maxChars);
+            const end = cut > 0 ? cut : maxChars;
+            batches.push(batch.slice(0, end).trim());
+            batch = batch.slice(end);
+        }
+    }
+    if (batch.trim()) batches.push(batch.trim());
+    return batches;
+};
+
+export interface SpeakOptions {
+    shouldStop?: () => boolean;
+    onFirstScheduled?: () => void;
+}
+
+/**
+ * Synthesizes `texts` a few at a time ahead of playback and queues each as soon as it is ready, so
+ * speech starts after the first batch and continues without gaps while the rest is generated.
+ * Resolves once everything has been queued, not played.
+ */
+export const speakInOrder = async (
+    queue: SpeechQueue,
+    texts: string[],
+    synthesize: (text: string) => Promise<SynthesizedAudio>,
+    { shouldStop = () => false, onFirstScheduled }: SpeakOptions = {}
+): Promise<void> => {
+    const pending: Promise<SynthesizedAudio>[] = [];
+    const start = (index: number) => {
+        if (index < texts.length && !pending[index]) {
+            pending[index] = synthesize(texts[index]);
+            // Failures are reported when the batch's turn comes, not as unhandled rejections
+            pending[index].catch(() => {});
+        }
+    };
+    for (let i = 0; i < texts.length; i++) {
+        for (let ahead = 0; ahead <= LOOKAHEAD_BATCHES; ahead++) start(i + ahead);
+        const speech = await pending[i];
+        if (shouldStop()) return;
+        await queue.enqueue(speech);
+        if (i === 0) onFirstScheduled?.();
+    }
+};
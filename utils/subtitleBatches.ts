@@ -0,0 +1,68 @@
+// Splits the texts of a subtitle file into translation batches that keep sentences together
+
+export interface SubtitleBatch {
+    start: number; // Index of the first text in the batch
+    end: number; // Index after the last text in the batch
+    previousTexts: string[]; // Dialogue just before the batch, sent as read-only context
+    nextTexts: string[]; // Dialogue just after the batch, sent as read-only context
+}
+
+// A span of consecutive texts that together hold one sentence
+export interface SentenceSpan {
+    start: number;
+    end: number; // Exclusive
+}
+
+export const SUBTITLE_CONTEXT_SIZE = 5; // Texts of context on each side of a batch
+
+const SENTENCE_END = /(?:[.!?…。！？؟♪]|--)["'”’»)\]]*$/;
+const DIALOGUE_DASH = /^[-–—]\s/;
+
+// Whether the sentence ends with texts[index], so the next text starts a new one
+const isSentenceBreak = (texts: string[], index: number): boolean => {
+    if (index >= texts.length - 1) return true;
+    const text = texts[index].replace(/\{\d+\}/g, '').trim();
+    const next = texts[index + 1].replace(/\{\d+\}/g, '').trim();
+    return text === '' || next === '' || SENTENCE_END.test(text) || DIALOGUE_DASH.test(next);
+};
+
+// Sentences that run over more than one text; single-text sentences are left out
+export const findSentenceSpans = (texts: string[]): SentenceSpan[] => {
+    const spans: SentenceSpan[] = [];
+    let start = 0;
+    texts.forEach((_, i) => {
+        if (!isSentenceBreak(texts, i)) return;
+        if (i > start) spans.push({ start, end: i + 1 });
+        start = i + 1;
+    });
+    return spans;
+};
+
+/**
+ * Cuts `texts` into batches of at most `size`, ending each batch at the last sentence break in its
+ * second half so that a sentence spanning several cues is translated in one request. When there is
+ * no break that late, the batch is cut at `size` and the context on either side bridges the gap.
+ */
+export const planSubtitleBatches = (texts: string[], size: number, contextSize: number = SUBTITLE_CONTEXT_SIZE): SubtitleBatch[] => {
+    const batches: SubtitleBatch[] = [];
+    let start = 0;
+    while (start < texts.length) {
+        let end = Math.min(texts.length, start + size);
+        if (end < texts.length) {
+            for (let i = end; i > start + size / 2; i--) {
+                if (isSentenceBreak(texts, i - 1)) {
+                    end = i;
+                    break;
+                }
+            }
+        }
+        batches.push({
+            start,
+            end,
+            previousTexts: texts.slice(Math.max(0, start - contextSize), start),
+            nextTexts: texts.slice(end, end + contextSize),
+        });
+        start = end;
+    }
+    return batches;
+};
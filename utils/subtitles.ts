@@ -0,0 +1,253 @@
+import { AssStyle, SubtitleCue, SubtitleDocument, SubtitleFormat, TranscriptionSegment } from '../types.ts';
+import { DEFAULT_ASS_STYLE } from '../constants.ts';
+import { parseAss, buildAssFile, assToPlainText } from './ass.ts';
+import { getCueWordLines } from './words.ts';
+
+const formatTimestamp = (ms: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(totalMs / 3600000).toString().padStart(2, '0');
+  const minutes = Math.floor((totalMs % 3600000) / 60000).toString().padStart(2, '0');
+  const seconds = Math.floor((totalMs % 60000) / 1000).toString().padStart(2, '0');
+  const milliseconds = (totalMs % 1000).toString().padStart(3, '0');
+  return `${hours}:${minutes}:${seconds}${separator}${milliseconds}`;
+};
+
+// Formats milliseconds into SRT timestamp format HH:MM:SS,mmm
+export const formatSrtTime = (ms: number): string => formatTimestamp(ms, ',');
+
+// Formats milliseconds into WebVTT timestamp format HH:MM:SS.mmm
+export const formatVttTime = (ms: number): string => formatTimestamp(ms, '.');
+
+/**
+ * Parses an SRT or WebVTT timestamp into milliseconds.
+ * Accepts HH:MM:SS,mmm, HH:MM:SS.mmm and the WebVTT short form MM:SS.mmm. Returns null when invalid.
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours || '0', 10) * 3600000 +
+    parseInt(minutes, 10) * 60000 +
+    parseInt(seconds, 10) * 1000 +
+    parseInt(fraction.padEnd(3, '0'), 10)
+  );
+};
+
+// Splits a "start --> end [settings]" line into its parts
+const parseTimingLine = (line: string): Pick<SubtitleCue, 'startTime' | 'endTime' | 'settings'> | null => {
+  const match = line.trim().match(/^(\S+)\s+-->\s+(\S+)(?:\s+(.*))?$/);
+  if (!match) return null;
+  const startTime = parseTimestamp(match[1]);
+  const endTime = parseTimestamp(match[2]);
+  if (startTime === null || endTime === null) return null;
+  const settings = match[3]?.trim();
+  return { startTime, endTime, ...(settings ? { settings } : {}) };
+};
+
+const splitBlocks = (content: string): string[] =>
+  content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim().split(/\n\n+/).filter(b => b.trim());
+
+export const parseSrt = (srtContent: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  for (const block of splitBlocks(srtContent)) {
+    const lines = block.split('\n');
+
+    // A valid block must have at least 2 lines (timing and text)
+    if (lines.length < 2) continue;
+
+    let lineIndex = 0;
+    let index: number;
+
+    // Check if the first line is a number (the index)
+    if (/^\d+$/.test(lines[lineIndex].trim())) {
+      index = parseInt(lines[lineIndex].trim(), 10);
+      lineIndex++;
+    } else {
+      // If no index, generate one
+      index = cues.length + 1;
+    }
+
+    // The next line should be the timing; if it is missing or malformed this is not a valid block
+    const timing = lines.length > lineIndex ? parseTimingLine(lines[lineIndex]) : null;
+    if (!timing) continue;
+    lineIndex++;
+
+    // The rest of the lines are the text
+    const text = lines.slice(lineIndex).join('\n').trim();
+
+    if (text) {
+      cues.push({ index, ...timing, text });
+    }
+  }
+  return cues;
+};
+
+/**
+ * Parses a WebVTT file. Cue identifiers and settings are kept on each cue, and STYLE, REGION and NOTE
+ * blocks are kept verbatim so the file can be written back unchanged apart from the cue text.
+ */
+export const parseVtt = (vttContent: string): SubtitleDocument => {
+  const blocks = splitBlocks(vttContent);
+  if (blocks.length === 0 || !/^WEBVTT(?:[ \t].*)?$/.test(blocks[0].split('\n')[0])) {
+    throw new Error('Missing WEBVTT signature.');
+  }
+
+  const headerBlocks = [blocks[0]];
+  const cues: SubtitleCue[] = [];
+  let pendingBlocks: string[] = [];
+
+  for (const block of blocks.slice(1)) {
+    const lines = block.split('\n');
+    const timingLineIndex = lines.findIndex(line => line.includes('-->'));
+
+    // NOTE, STYLE and REGION blocks never contain a timing line in the first two lines
+    if (timingLineIndex === -1 || timingLineIndex > 1 || /^(NOTE|STYLE|REGION)(\s|$)/.test(lines[0])) {
+      if (cues.length === 0) {
+        headerBlocks.push(block);
+      } else {
+        pendingBlocks.push(block);
+      }
+      continue;
+    }
+
+    const timing = parseTimingLine(lines[timingLineIndex]);
+    if (!timing) continue;
+
+    const text = lines.slice(timingLineIndex + 1).join('\n').trim();
+    if (!text) continue;
+
+    cues.push({
+      index: cues.length + 1,
+      ...(timingLineIndex === 1 ? { identifier: lines[0] } : {}),
+      ...timing,
+      ...(pendingBlocks.length > 0 ? { leadingBlocks: pendingBlocks } : {}),
+      text,
+    });
+    pendingBlocks = [];
+  }
+
+  return { format: 'vtt', header: headerBlocks.join('\n\n'), cues, footer: pendingBlocks.join('\n\n') };
+};
+
+export const parseSubtitleFile = (content: string, format: SubtitleFormat): SubtitleDocument => {
+  if (format === 'vtt') {
+    return parseVtt(content);
+  }
+  if (format === 'ass') {
+    return parseAss(content);
+  }
+  return { format: 'srt', header: '', cues: parseSrt(content), footer: '' };
+};
+
+export const getSubtitleFormat = (fileName: string): SubtitleFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ssa') return 'ass';
+  return extension === 'srt' || extension === 'vtt' || extension === 'ass' ? extension : null;
+};
+
+/**
+ * Serializes a subtitle document, optionally replacing each cue's text.
+ * Writing to the document's own format preserves identifiers, settings and extra blocks;
+ * converting between formats drops what the target format cannot represent.
+ * `assStyle` and `title` are only used when converting another format to ASS.
+ */
+export const buildSubtitleFile = (
+  document: SubtitleDocument,
+  format: SubtitleFormat,
+  texts: string[] = [],
+  options: { assStyle?: AssStyle; title?: string } = {}
+): string => {
+  if (format === 'ass') {
+    return buildAssFile(document, texts, options.assStyle || DEFAULT_ASS_STYLE, options.title || 'Subtitles');
+  }
+  if (document.format === 'ass') {
+    texts = document.cues.map((cue, i) => assToPlainText(texts[i] || cue.text));
+  }
+  const keepExtras = document.format === format;
+
+  if (format === 'srt') {
+    return document.cues.map((cue, i) => {
+      const text = texts[i] || cue.text; // Fallback to original
+      const settings = keepExtras && cue.settings ? ` ${cue.settings}` : '';
+      return `${cue.index}\n${formatSrtTime(cue.startTime)} --> ${formatSrtTime(cue.endTime)}${settings}\n${text}\n\n`;
+    }).join('');
+  }
+
+  const parts = [keepExtras && document.header ? document.header : 'WEBVTT'];
+  document.cues.forEach((cue, i) => {
+    if (keepExtras && cue.leadingBlocks) {
+      parts.push(...cue.leadingBlocks);
+    }
+    const text = texts[i] || cue.text;
+    const identifier = keepExtras && cue.identifier ? `${cue.identifier}\n` : '';
+    const settings = keepExtras && cue.settings ? ` ${cue.settings}` : '';
+    parts.push(`${identifier}${formatVttTime(cue.startTime)} --> ${formatVttTime(cue.endTime)}${settings}\n${text}`);
+  });
+  if (keepExtras && document.footer) {
+    parts.push(document.footer);
+  }
+  return parts.join('\n\n') + '\n';
+};
+
+// "- Name: " before the first line of an SRT cue with a speaker, or nothing
+export const getSrtSpeakerPrefix = (segment: TranscriptionSegment): string =>
+  segment.speaker ? `- ${segment.speaker}: ` : '';
+
+// Segments with a speaker are written as "- Name: text" dialogue lines
+export const segmentsToSrt = (segments: TranscriptionSegment[]): string =>
+  segments.map((segment, i) => {
+    const text = `${getSrtSpeakerPrefix(segment)}${segment.text}`;
+    return `${i + 1}\n${formatSrtTime(segment.startTime)} --> ${formatSrtTime(segment.endTime)}\n${text}\n\n`;
+  }).join('');
+
+// "&", "<" and ">" start markup in WebVTT cue text, so plain text needs them as character references
+const escapeVttText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Cue text with an inline timestamp tag before every word after the first, e.g. "Hello <00:00:01.250>world"
+const toVttKaraokeText = (segment: TranscriptionSegment): string => {
+  const lines = getCueWordLines(segment);
+  if (lines.length === 0) return escapeVttText(segment.text);
+  let first = true;
+  return lines
+    .map(line => line.map(word => {
+      const text = escapeVttText(word.text);
+      const tagged = !first && word.startTime > segment.startTime ? `<${formatVttTime(word.startTime)}>${text}` : text;
+      first = false;
+      return tagged;
+    }).join(' '))
+    .join('\n');
+};
+
+/**
+ * Serializes segments as WebVTT. Each entry in `notes` becomes a NOTE block after the header,
+ * and `cueSettings` (e.g. "line:85% align:center") is applied to every cue.
+ * Segments with a speaker are wrapped in a <v Name> voice tag. With `wordTimings`, segments
+ * that have word timings get inline timestamp tags for karaoke-style rendering.
+ */
+export const segmentsToVtt = (
+  segments: TranscriptionSegment[],
+  options: { notes?: string[]; cueSettings?: string; wordTimings?: boolean } = {}
+): string => {
+  const settings = options.cueSettings?.trim() ? ` ${options.cueSettings.trim()}` : '';
+  const parts = ['WEBVTT'];
+  for (const note of options.notes || []) {
+    // A NOTE block may not contain a blank line or the "-->" string
+    parts.push(`NOTE ${note.replace(/-->/g, '->').replace(/\n\s*\n/g, '\n')}`);
+  }
+  segments.forEach((segment, i) => {
+    const cueText = options.wordTimings ? toVttKaraokeText(segment) : escapeVttText(segment.text);
+    // The voice annotation ends at ">" and may not span lines
+    const text = segment.speaker ? `<v ${escapeVttText(segment.speaker.replace(/\s+/g, ' ').trim())}>${cueText}` : cueText;
+    parts.push(`${i + 1}\n${formatVttTime(segment.startTime)} --> ${formatVttTime(segment.endTime)}${settings}\n${text}`);
+  });
+  return parts.join('\n\n') + '\n';
+};
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip;charset=utf-8',
+  vtt: 'text/vtt;charset=utf-8',
+  ass: 'text/x-ssa;charset=utf-8',
+};
@@ -0,0 +1,43 @@
+const WINDOW_MS = 40; // Long enough to hold a couple of pitch periods of a low voice
+const SEEK_MS = 12; // How far a frame may move to line up with the waveform before it
+
+const sampleAt = (input: Float32Array, index: number): number => index >= 0 && index < input.length ? input[index] : 0;
+
+/**
+ * Changes the duration of mono speech by `speed` without changing its pitch (WSOLA). Frames are taken
+ * from the input at `speed` times the output rate and overlap-added with a Hann window; each frame is
+ * shifted within a small range to the position that best continues the waveform already written,
+ * which avoids the phasing a plain overlap-add would produce.
+ */
+export const timeStretch = (input: Float32Array, sampleRate: number, speed: number): Float32Array => {
+    if (speed === 1 || input.length === 0) return input.slice();
+
+    const frame = 2 * Math.round((sampleRate * WINDOW_MS) / 2000);
+    const hop = frame / 2; // Hann windows at half overlap sum to one
+    const seek = Math.round((sampleRate * SEEK_MS) / 1000);
+    const window = Float32Array.from({ length: frame }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame));
+    const outputLength = Math.round(input.length / speed);
+    const output = new Float32Array(outputLength + frame);
+
+    let previous = 0; // Input position of the last frame written
+    for (let position = 0; position < outputLength; position += hop) {
+        const nominal = Math.round(position * speed);
+        let best = nominal;
+        if (position > 0) {
+            // The input that naturally follows the previous frame is what this frame should sound like
+            const target = previous + hop;
+            let bestScore = -Infinity;
+            for (let candidate = nominal - seek; candidate <= nominal + seek; candidate++) {
+                let score = 0;
+                for (let i = 0; i < hop; i++) score += sampleAt(input, candidate + i) * sampleAt(input, target + i);
+                if (score > bestScore) {
+                    bestScore = score;
+                    best = candidate;
+                }
+            }
+        }
+        for (let i = 0; i < frame; i++) output[position + i] += sampleAt(input, best + i) * window[i];
+        previous = best;
+    }
+    return output.slice(0, outputLength);
+};
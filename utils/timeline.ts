@@ -0,0 +1,31 @@
+import { TranscriptionSegment, WordTiming } from '../types.ts';
+
+// Returns the index of the segment playing at `timeMs`, or -1 when the time falls in a gap
+export const findSegmentIndexAt = (segments: TranscriptionSegment[], timeMs: number): number => {
+    let low = 0;
+    let high = segments.length - 1;
+    // Segments are sorted by start time, so binary search for the last one starting at or before timeMs
+    let candidate = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (segments[mid].startTime <= timeMs) {
+            candidate = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return candidate >= 0 && timeMs < segments[candidate].endTime ? candidate : -1;
+};
+
+/**
+ * Returns the index of the word being spoken at `timeMs`. A word stays active through the pause
+ * that follows it, so the highlight does not flicker between words; -1 before the first word.
+ */
+export const findWordIndexAt = (words: WordTiming[], timeMs: number): number => {
+    let candidate = -1;
+    for (let i = 0; i < words.length && words[i].startTime <= timeMs; i++) {
+        candidate = i;
+    }
+    return candidate;
+};
@@ -0,0 +1,158 @@
+import { ChunkCheckpoint } from '../types.ts';
+
+// Energy-based voice activity detection used to cut long files at pauses instead of fixed offsets
+
+const FRAME_SECONDS = 0.03;
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const SPEECH_ABOVE_NOISE_DB = 10;
+const MIN_SPEECH_THRESHOLD_DB = -55;
+const MAX_SPEECH_THRESHOLD_DB = -25; // Audio that is loud throughout counts as speech everywhere
+const MIN_PAUSE_SECONDS = 0.3; // Shorter dips are gaps between words
+const MIN_SPEECH_SECONDS = 0.1; // Shorter bursts are clicks
+const SPEECH_PADDING_SECONDS = 0.2;
+const FORCED_CUT_DISTANCE_PENALTY_DB = 0.5; // Per second away from the target, so equally quiet points favour the target
+
+export interface SpeechRegion {
+    startSeconds: number;
+    endSeconds: number;
+}
+
+export type ChunkWindow = Pick<ChunkCheckpoint, 'offsetSeconds' | 'durationSeconds'>;
+
+export interface SpeechChunkOptions {
+    targetSeconds: number;
+    // Longest chunk allowed when no pause is close enough to the target
+    maxSeconds?: number;
+    // Silences at least this long are left out of every chunk; 0 keeps all audio
+    skipSilenceSeconds?: number;
+}
+
+// Loudness of each frame in dBFS, all channels mixed down
+const measureFrameLevels = (buffer: AudioBuffer): Float32Array => {
+    const frameLength = Math.max(1, Math.round(FRAME_SECONDS * buffer.sampleRate));
+    const levels = new Float32Array(Math.ceil(buffer.length / frameLength));
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    for (let frame = 0; frame < levels.length; frame++) {
+        const start = frame * frameLength;
+        const end = Math.min(start + frameLength, buffer.length);
+        let sum = 0;
+        for (let i = start; i < end; i++) {
+            let sample = 0;
+            for (const data of channels) sample += data[i];
+            sample /= channels.length;
+            sum += sample * sample;
+        }
+        const rms = Math.sqrt(sum / Math.max(1, end - start));
+        levels[frame] = rms > 0 ? 20 * Math.log10(rms) : -120;
+    }
+    return levels;
+};
+
+const percentile = (values: Float32Array, fraction: number): number => {
+    const sorted = Float32Array.from(values).sort();
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
+
+/**
+ * Finds the stretches of the buffer that contain speech. The threshold adapts to the recording's
+ * noise floor; pauses between words are bridged and each region is padded so no onset is clipped.
+ */
+export const detectSpeechRegions = (buffer: AudioBuffer): SpeechRegion[] => {
+    const levels = measureFrameLevels(buffer);
+    if (levels.length === 0) return [];
+    const threshold = Math.min(MAX_SPEECH_THRESHOLD_DB, Math.max(MIN_SPEECH_THRESHOLD_DB, percentile(levels, NOISE_FLOOR_PERCENTILE) + SPEECH_ABOVE_NOISE_DB));
+
+    const raw: SpeechRegion[] = [];
+    let regionStart = -1;
+    levels.forEach((level, frame) => {
+        if (level > threshold && regionStart < 0) regionStart = frame;
+        if (level <= threshold && regionStart >= 0) {
+            raw.push({ startSeconds: regionStart * FRAME_SECONDS, endSeconds: frame * FRAME_SECONDS });
+            regionStart = -1;
+        }
+    });
+    if (regionStart >= 0) raw.push({ startSeconds: regionStart * FRAME_SECONDS, endSeconds: buffer.duration });
+
+    const regions: SpeechRegion[] = [];
+    for (const region of raw) {
+        const last = regions[regions.length - 1];
+        if (last && region.startSeconds - last.endSeconds < MIN_PAUSE_SECONDS) {
+            last.endSeconds = region.endSeconds;
+        } else {
+            regions.push({ ...region });
+        }
+    }
+
+    const padded: SpeechRegion[] = [];
+    for (const region of regions.filter(r => r.endSeconds - r.startSeconds >= MIN_SPEECH_SECONDS)) {
+        const startSeconds = Math.max(0, region.startSeconds - SPEECH_PADDING_SECONDS);
+        const endSeconds = Math.min(buffer.duration, region.endSeconds + SPEECH_PADDING_SECONDS);
+        const last = padded[padded.length - 1];
+        if (last && startSeconds <= last.endSeconds) {
+            last.endSeconds = endSeconds;
+        } else {
+            padded.push({ startSeconds, endSeconds });
+        }
+    }
+    return padded;
+};
+
+// Quietest point between `from` and `to` near `target`, used when speech runs on without a pause
+const findQuietestPoint = (levels: Float32Array, fromSeconds: number, toSeconds: number, targetSeconds: number): number => {
+    const first = Math.floor(fromSeconds / FRAME_SECONDS);
+    const last = Math.min(levels.length - 1, Math.ceil(toSeconds / FRAME_SECONDS));
+    const score = (frame: number) => levels[frame] + FORCED_CUT_DISTANCE_PENALTY_DB * Math.abs(frame * FRAME_SECONDS - targetSeconds);
+    let quietest = first;
+    for (let frame = first; frame <= last; frame++) {
+        if (score(frame) < score(quietest)) quietest = frame;
+    }
+    return Math.min(toSeconds, Math.max(fromSeconds, quietest * FRAME_SECONDS));
+};
+
+/**
+ * Plans chunk windows that end in the pause nearest to `targetSeconds`, so no chunk starts or ends
+ * inside speech. Silences of at least `skipSilenceSeconds` fall between windows and are never sent.
+ * Returns an empty list when the buffer contains no detectable speech.
+ */
+export const planSpeechChunks = (buffer: AudioBuffer, options: SpeechChunkOptions): ChunkWindow[] => {
+    const { targetSeconds, maxSeconds = targetSeconds * 1.25, skipSilenceSeconds = 0 } = options;
+    const regions = detectSpeechRegions(buffer);
+    if (regions.length === 0) return [];
+
+    const skips = (gapSeconds: number) => skipSilenceSeconds > 0 && gapSeconds >= skipSilenceSeconds;
+    const pauses = regions.slice(1).map((region, i) => ({ startSeconds: regions[i].endSeconds, endSeconds: region.startSeconds }));
+    const firstStart = skips(regions[0].startSeconds) ? regions[0].startSeconds : 0;
+    const lastEnd = skips(buffer.duration - regions[regions.length - 1].endSeconds) ? regions[regions.length - 1].endSeconds : buffer.duration;
+    let levels: Float32Array | null = null;
+
+    const windows: ChunkWindow[] = [];
+    let start = firstStart;
+    while (start < lastEnd) {
+        const ahead = pauses.filter(p => p.startSeconds > start);
+        const skipped = ahead.find(p => skips(p.endSeconds - p.startSeconds));
+        if (skipped && skipped.startSeconds - start <= maxSeconds) {
+            windows.push({ offsetSeconds: start, durationSeconds: skipped.startSeconds - start });
+            start = skipped.endSeconds;
+            continue;
+        }
+        if (lastEnd - start <= maxSeconds) {
+            windows.push({ offsetSeconds: start, durationSeconds: lastEnd - start });
+            break;
+        }
+
+        const target = start + targetSeconds;
+        const candidates = ahead
+            .map(p => (p.startSeconds + p.endSeconds) / 2)
+            .filter(cut => cut >= start + targetSeconds / 2 && cut <= start + maxSeconds);
+        let cut: number;
+        if (candidates.length > 0) {
+            cut = candidates.reduce((best, c) => Math.abs(c - target) < Math.abs(best - target) ? c : best);
+        } else {
+            levels = levels || measureFrameLevels(buffer);
+            cut = findQuietestPoint(levels, start + targetSeconds / 2, start + maxSeconds, target);
+        }
+        windows.push({ offsetSeconds: start, durationSeconds: cut - start });
+        start = cut;
+    }
+    return windows;
+};
@@ -0,0 +1,43 @@
+import { TranscriptionSegment, WordTiming } from '../types.ts';
+
+const splitWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+/**
+ * Re-labels word timings after the segment text was edited. Timings survive as long as the word
+ * count is unchanged (e.g. a typo fix); otherwise they no longer line up and are dropped.
+ */
+export const matchWordsToText = (words: WordTiming[] | undefined, text: string): WordTiming[] | undefined => {
+    if (!words) return undefined;
+    const tokens = splitWords(text);
+    if (tokens.length !== words.length) return undefined;
+    return words.map((word, i) => ({ ...word, text: tokens[i] }));
+};
+
+// Number of words before a character position, used to split word timings along with the text
+export const countWordsBefore = (text: string, position: number): number => splitWords(text.slice(0, position)).length;
+
+/**
+ * Word timings of a segment, sorted and clamped to the segment's bounds so that exported
+ * karaoke tags stay inside the cue even after its start or end was nudged.
+ */
+export const getCueWords = (segment: TranscriptionSegment): WordTiming[] =>
+    (segment.words || [])
+        .slice()
+        .sort((a, b) => a.startTime - b.startTime)
+        .map(word => {
+            const startTime = Math.min(Math.max(word.startTime, segment.startTime), segment.endTime);
+            return { ...word, startTime, endTime: Math.min(Math.max(word.endTime, startTime), segment.endTime) };
+        });
+
+/**
+ * Cue words grouped by the lines of the segment text, so that karaoke exports keep line breaks
+ * added by hand or by the readability reflow. Each word takes its text from the segment; when the
+ * word count does not match the text, the timed words are returned as a single line.
+ */
+export const getCueWordLines = (segment: TranscriptionSegment): WordTiming[][] => {
+    const words = getCueWords(segment);
+    const lines = segment.text.split('\n').map(splitWords).filter(line => line.length > 0);
+    if (lines.flat().length !== words.length) return words.length > 0 ? [words] : [];
+    let next = 0;
+    return lines.map(line => line.map(text => ({ ...words[next++], text })));
+};